@@ -1,79 +1,123 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Controls from './components/Controls';
 import HandDrawnTable from './components/HandDrawnTable';
 import DataEditor from './components/DataEditor';
-import { TableConfig, TableData, GenerateStatus } from './types';
+import { TableConfig, TableData, GenerateStatus, HistorySetter, DocumentMeta } from './types';
+import { DEFAULT_CONFIG, DEFAULT_DATA } from './constants';
 import { generateTableData } from './services/geminiService';
+import {
+  loadLibrary, loadDocument, saveDocument, saveDocumentContent, setActiveDocument,
+  createDocument, duplicateDocument, renameDocument, deleteDocument, LoadResult
+} from './services/storageService';
+import { useHistory } from './hooks/useHistory';
+import { repairTableData } from './utils/documentValidation';
 
-const STORAGE_KEY_DATA = 'handy_table_data_v1';
-const STORAGE_KEY_CONFIG = 'handy_table_config_v1';
-
-const DEFAULT_CONFIG: TableConfig = {
-  roughness: 1.5,
-  bowing: 1.2,
-  stroke: '#2d3748', // Gray 800
-  strokeWidth: 2,
-  padding: 10,
-  textColor: '#1a202c', // Gray 900
-  fill: 'hachure',
-  fillColor: '#60a5fa', // Blue 400
-  widthScale: 1.0,
-  customColumnWidths: {},
-  customRowHeights: {}
+interface DocumentState {
+  data: TableData;
+  config: TableConfig;
+}
+
+// The repaired document is written back, so the same problems aren't reported on every load
+const reportRepairs = ({ document, issues }: LoadResult) => {
+  if (issues.length === 0) return;
+  saveDocument(document);
+  console.warn(`Repaired saved table "${document.name}":`, issues);
+  alert(`表格「${document.name}」的保存数据有损坏，已自动修复 ${issues.length} 处问题。`);
 };
 
-const DEFAULT_DATA: TableData = [
-  [
-      { id: '1', value: "Feature", rowSpan: 1, colSpan: 1 },
-      { id: '2', value: "Basic", rowSpan: 1, colSpan: 1 }, 
-      { id: '3', value: "Pro", rowSpan: 1, colSpan: 1 }
-  ],
-  [
-      { id: '4', value: "Users", rowSpan: 1, colSpan: 1 }, 
-      { id: '5', value: "1", rowSpan: 1, colSpan: 1 }, 
-      { id: '6', value: "Unlimited", rowSpan: 1, colSpan: 1 }
-  ],
-  [
-      { id: '7', value: "Storage", rowSpan: 1, colSpan: 1 }, 
-      { id: '8', value: "5GB", rowSpan: 1, colSpan: 1 }, 
-      { id: '9', value: "1TB", rowSpan: 1, colSpan: 1 }
-  ],
-  [
-      { id: '10', value: "Support", rowSpan: 1, colSpan: 1 }, 
-      { id: '11', value: "Email", rowSpan: 1, colSpan: 1 }, 
-      { id: '12', value: "24/7 Live", rowSpan: 1, colSpan: 1 }
-  ]
-];
+// Open the last active document, falling back to the next loadable one or a fresh table.
+// Repairs are reported by the caller once mounted, this runs twice under StrictMode.
+const openInitialDocument = (): LoadResult => {
+  const library = loadLibrary();
+  const candidates = [library.activeId, ...library.documents.map(meta => meta.id)].filter((id): id is string => !!id);
+  for (const id of candidates) {
+    const result = loadDocument(id);
+    if (result) {
+      setActiveDocument(id);
+      return result;
+    }
+  }
+  const created = createDocument('我的表格');
+  setActiveDocument(created.id);
+  return { document: created, issues: [] };
+};
+
+// Text fields outside the table editor keep their native undo
+const isExternalTextField = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  const isField = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+  return isField && !target.closest('[data-table-history]');
+};
 
 export default function App() {
-  // Initialize from localStorage if available
-  const [config, setConfig] = useState<TableConfig>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_CONFIG);
-    return saved ? JSON.parse(saved) : DEFAULT_CONFIG;
-  });
-  
-  const [data, setData] = useState<TableData>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_DATA);
-    return saved ? JSON.parse(saved) : DEFAULT_DATA;
-  });
+  const [initialLoad] = useState(openInitialDocument);
+  const initialDocument = initialLoad.document;
+  const [documents, setDocuments] = useState<DocumentMeta[]>(() => loadLibrary().documents);
+  const [activeId, setActiveId] = useState(initialDocument.id);
+
+  // Data and config share one history so every change can be undone in order
+  const { state, set, undo, redo, reset, canUndo, canRedo } = useHistory<DocumentState>(() => ({
+    data: initialDocument.data,
+    config: initialDocument.config
+  }));
+  const { data, config } = state;
+  // The state as last loaded from / written to storage, so switching documents doesn't count as an edit
+  const persistedState = useRef(state);
+
+  // Report (and save) repairs of the document opened at start; the ref keeps StrictMode's
+  // second effect run from alerting twice
+  const initialRepairsReported = useRef(false);
+  useEffect(() => {
+    if (initialRepairsReported.current) return;
+    initialRepairsReported.current = true;
+    reportRepairs(initialLoad);
+  }, [initialLoad]);
+
+  const setData: HistorySetter<TableData> = useCallback((action, coalesceKey) => {
+    set(prev => ({ ...prev, data: typeof action === 'function' ? action(prev.data) : action }), coalesceKey);
+  }, [set]);
+
+  const setConfig: HistorySetter<TableConfig> = useCallback((action, coalesceKey) => {
+    set(prev => ({ ...prev, config: typeof action === 'function' ? action(prev.config) : action }), coalesceKey);
+  }, [set]);
 
   const [status, setStatus] = useState<GenerateStatus>(GenerateStatus.IDLE);
   const [activeTab, setActiveTab] = useState<'preview' | 'edit'>('preview');
 
   // Sync with localStorage on changes
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_DATA, JSON.stringify(data));
-  }, [data]);
+    if (persistedState.current === state) return;
+    persistedState.current = state;
+    setDocuments(saveDocumentContent(activeId, state.data, state.config));
+  }, [state, activeId]);
 
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) for undo / redo
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify(config));
-  }, [config]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isExternalTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const handleGenerate = async (prompt: string) => {
     setStatus(GenerateStatus.LOADING);
     try {
-      const generatedData = await generateTableData(prompt);
-      setData(generatedData);
+      // Model output is untrusted like saved data: ragged rows, missing cells, etc.
+      const issues: string[] = [];
+      const generatedData = repairTableData(await generateTableData(prompt), issues);
+      if (!generatedData || generatedData.length === 0) throw new Error("Generated table is empty");
+      if (issues.length > 0) console.warn("Repaired generated table:", issues);
+      // Filters of the previous table would hide arbitrary rows of the new one
+      set(prev => ({ data: generatedData, config: { ...prev.config, filters: [], columnFormats: {}, annotations: [] } }));
       setStatus(GenerateStatus.SUCCESS);
       setActiveTab('preview');
     } catch (error) {
@@ -85,19 +129,76 @@ export default function App() {
     }
   };
 
+  const handleImportData = (importedData: TableData) => {
+    // Sizes, filters, column formats and annotations of the previous table don't apply to the imported one
+    set(prev => ({
+      data: importedData,
+      config: { ...prev.config, customColumnWidths: {}, customRowHeights: {}, filters: [], columnFormats: {}, annotations: [] }
+    }));
+    setActiveTab('preview');
+  };
+
   const handleReset = () => {
-    if (window.confirm("确定要重置所有数据和设置吗？保存的内容将被清除。")) {
-      setData(DEFAULT_DATA);
-      setConfig(DEFAULT_CONFIG);
-      localStorage.removeItem(STORAGE_KEY_DATA);
-      localStorage.removeItem(STORAGE_KEY_CONFIG);
+    if (window.confirm("确定要重置当前表格的数据和设置吗？")) {
+      set({ data: DEFAULT_DATA, config: DEFAULT_CONFIG });
     }
   };
 
   const handleSaveManually = () => {
     // Already synced via useEffect, but provide feedback as requested
-    localStorage.setItem(STORAGE_KEY_DATA, JSON.stringify(data));
-    localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify(config));
+    persistedState.current = state;
+    setDocuments(saveDocumentContent(activeId, data, config));
+  };
+
+  const openDocument = (id: string) => {
+    const result = loadDocument(id);
+    if (!result) {
+      alert("该表格的数据已损坏，无法打开。");
+      setDocuments(loadLibrary().documents);
+      return;
+    }
+    reportRepairs(result);
+    setActiveDocument(id);
+    const next = { data: result.document.data, config: result.document.config };
+    persistedState.current = next;
+    reset(next);
+    setActiveId(id);
+  };
+
+  const handleSelectDocument = (id: string) => {
+    if (id === activeId) return;
+    openDocument(id);
+  };
+
+  const handleCreateDocument = () => {
+    const created = createDocument(`新表格 ${documents.length + 1}`);
+    setDocuments(loadLibrary().documents);
+    openDocument(created.id);
+  };
+
+  const handleDuplicateDocument = (id: string) => {
+    const copy = duplicateDocument(id);
+    setDocuments(loadLibrary().documents);
+    if (copy) openDocument(copy.id);
+  };
+
+  const handleRenameDocument = (id: string, name: string) => {
+    setDocuments(renameDocument(id, name));
+  };
+
+  const handleDeleteDocument = (id: string) => {
+    const meta = documents.find(d => d.id === id);
+    if (!window.confirm(`确定要删除「${meta?.name ?? '该表格'}」吗？此操作无法撤销。`)) return;
+    const library = deleteDocument(id);
+    setDocuments(library.documents);
+    if (id !== activeId) return;
+    if (library.activeId) {
+      openDocument(library.activeId);
+    } else {
+      const created = createDocument('我的表格');
+      setDocuments(loadLibrary().documents);
+      openDocument(created.id);
+    }
   };
 
   return (
@@ -105,10 +206,19 @@ export default function App() {
       <Controls 
         config={config} 
         setConfig={setConfig} 
+        data={data}
+        onImportData={handleImportData}
         onGenerate={handleGenerate} 
         onReset={handleReset}
         onSave={handleSaveManually}
         status={status}
+        documents={documents}
+        activeDocumentId={activeId}
+        onSelectDocument={handleSelectDocument}
+        onCreateDocument={handleCreateDocument}
+        onRenameDocument={handleRenameDocument}
+        onDuplicateDocument={handleDuplicateDocument}
+        onDeleteDocument={handleDeleteDocument}
       />
       
       <main className="flex-1 flex flex-col min-w-0">
@@ -128,8 +238,28 @@ export default function App() {
               </button>
            </div>
            
-           <div className="hidden md:block text-xs text-green-600 font-medium">
-             ✓ 数据已自动保存至浏览器
+           <div className="flex items-center gap-4">
+             <div className="flex gap-1">
+               <button
+                 onClick={undo}
+                 disabled={!canUndo}
+                 className="px-2 py-1 rounded-md text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+                 title="撤销 (Ctrl+Z)"
+               >
+                 ↶ 撤销
+               </button>
+               <button
+                 onClick={redo}
+                 disabled={!canRedo}
+                 className="px-2 py-1 rounded-md text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+                 title="重做 (Ctrl+Shift+Z)"
+               >
+                 ↷ 重做
+               </button>
+             </div>
+             <div className="hidden md:block text-xs text-green-600 font-medium">
+               ✓ 数据已自动保存至浏览器
+             </div>
            </div>
         </div>
 
@@ -137,7 +267,11 @@ export default function App() {
           <div className="max-w-5xl mx-auto h-full flex flex-col">
             {activeTab === 'preview' ? (
               <div className="flex-1 flex items-center justify-center min-h-[400px]">
-                 <HandDrawnTable data={data} config={config} />
+                 <HandDrawnTable
+                   data={data}
+                   config={config}
+                   onAnnotationsChange={annotations => setConfig(prev => ({ ...prev, annotations }))}
+                 />
               </div>
             ) : (
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col h-[calc(100vh-140px)]">
@@ -0,0 +1,111 @@
+import React from 'react';
+import { AnimationEasing, AnimationOptions, AnimationOrder, getFrameTimes } from '../utils/drawAnimation';
+
+interface AnimationPanelProps {
+  options: AnimationOptions;
+  onChange: (options: AnimationOptions) => void;
+  exporting: boolean;
+  playing: boolean;
+  onPlay: () => void;
+  onExportSvg: () => void;
+  onExportFrames: () => void;
+  onClose: () => void;
+}
+
+const ORDER_OPTIONS: { value: AnimationOrder; label: string }[] = [
+  { value: 'row', label: '按行' },
+  { value: 'column', label: '按列' },
+  { value: 'outer-first', label: '由外向内' }
+];
+
+const EASING_OPTIONS: { value: AnimationEasing; label: string }[] = [
+  { value: 'linear', label: '匀速' },
+  { value: 'ease', label: '平滑' },
+  { value: 'ease-in-out', label: '缓入缓出' },
+  { value: 'ease-out', label: '缓出' }
+];
+
+const AnimationPanel: React.FC<AnimationPanelProps> = ({ options, onChange, exporting, playing, onPlay, onExportSvg, onExportFrames, onClose }) => {
+  const update = <K extends keyof AnimationOptions>(key: K, value: AnimationOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  return (
+    <div className="absolute top-full right-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-20 space-y-2 text-xs text-gray-600">
+      <label className="flex items-center justify-between gap-2">
+        时长 (秒)
+        <input
+          type="number"
+          min="0.5"
+          max="30"
+          step="0.5"
+          value={options.duration}
+          onChange={(e) => update('duration', Math.min(30, Math.max(0.5, parseFloat(e.target.value) || 0.5)))}
+          className="w-16 border border-gray-200 rounded px-1 py-0.5"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        绘制顺序
+        <select
+          value={options.order}
+          onChange={(e) => update('order', e.target.value as AnimationOrder)}
+          className="border border-gray-200 rounded px-1 py-0.5"
+        >
+          {ORDER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        缓动
+        <select
+          value={options.easing}
+          onChange={(e) => update('easing', e.target.value as AnimationEasing)}
+          className="border border-gray-200 rounded px-1 py-0.5"
+        >
+          {EASING_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        PNG 帧率
+        <input
+          type="number"
+          min="1"
+          max="60"
+          value={options.fps}
+          onChange={(e) => update('fps', Math.min(60, Math.max(1, Math.round(parseFloat(e.target.value) || 1))))}
+          className="w-16 border border-gray-200 rounded px-1 py-0.5"
+        />
+      </label>
+      <p className="text-gray-400">
+        共 {getFrameTimes(options).length} 帧，打包为 ZIP；倍率和背景沿用图片导出的设置。
+      </p>
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onClose} className="px-2 py-1 rounded hover:bg-gray-100">取消</button>
+        <button
+          onClick={onPlay}
+          disabled={exporting}
+          className="px-2 py-1 rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {playing ? '重播' : '▶ 预览'}
+        </button>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onExportFrames}
+          disabled={exporting}
+          className="px-2 py-1 rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+        >
+          PNG 帧
+        </button>
+        <button
+          onClick={onExportSvg}
+          disabled={exporting}
+          className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {exporting ? '导出中…' : '动画 SVG'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnimationPanel;
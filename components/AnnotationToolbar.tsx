@@ -0,0 +1,77 @@
+import React from 'react';
+import { AnnotationTool } from '../utils/annotations';
+
+interface AnnotationToolbarProps {
+  tool: AnnotationTool | null;
+  onToolChange: (tool: AnnotationTool | null) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  count: number;
+  onClear: () => void;
+}
+
+const TOOL_OPTIONS: { value: AnnotationTool; label: string; title: string }[] = [
+  { value: 'circle', label: '◯', title: '圈出单元格' },
+  { value: 'underline', label: 'U̲', title: '下划线' },
+  { value: 'strike', label: 'S̶', title: '删除线' },
+  { value: 'highlight', label: '▬', title: '荧光笔' },
+  { value: 'arrow', label: '↗', title: '箭头' },
+  { value: 'note', label: '✎', title: '便签' },
+  { value: 'erase', label: '⌫', title: '橡皮擦' }
+];
+
+const TOOL_HINTS: Record<AnnotationTool, string> = {
+  circle: '在表格上拖动，圈出一个或一组单元格',
+  underline: '在表格上拖动，给一个或一组单元格加下划线',
+  strike: '在表格上拖动，划掉一个或一组单元格',
+  highlight: '在表格上拖动，用荧光笔涂过一个或一组单元格',
+  arrow: '从一个单元格拖到另一个单元格',
+  note: '点击放置便签；便签可拖动，双击修改文字',
+  erase: '点击单元格删除它的标注，点击便签删除便签'
+};
+
+// Tools for drawing annotations over the preview; picking the active tool again puts it down
+const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({ tool, onToolChange, color, onColorChange, count, onClear }) => {
+  const clear = () => {
+    if (confirm(`删除全部 ${count} 个标注？`)) onClear();
+  };
+
+  return (
+    <div className="mt-3 flex flex-col items-center gap-1 text-xs text-gray-600">
+      <div className="flex items-center gap-1">
+        <span className="text-gray-500 mr-1">标注</span>
+        {TOOL_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onToolChange(tool === option.value ? null : option.value)}
+            className={`w-7 h-7 rounded border text-sm transition-colors ${tool === option.value ? 'bg-blue-100 text-blue-700 border-blue-300' : 'border-gray-200 hover:bg-gray-100'}`}
+            title={option.title}
+          >
+            {option.label}
+          </button>
+        ))}
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => onColorChange(e.target.value)}
+          className="w-6 h-6 p-0 mx-1 border-0 rounded cursor-pointer"
+          title="标注颜色"
+        />
+        <button
+          onClick={clear}
+          disabled={count === 0}
+          className="px-2 py-1 rounded text-gray-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+        >
+          清除全部
+        </button>
+      </div>
+      {tool ? (
+        <p className="text-blue-600">{TOOL_HINTS[tool]}</p>
+      ) : count > 0 && (
+        <p className="text-gray-400">拖动便签可移动，双击便签修改文字</p>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationToolbar;
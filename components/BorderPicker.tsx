@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { BorderLine, CellBorder } from '../types';
+import { BorderPreset } from '../utils/borders';
+
+interface BorderPickerProps {
+  disabled: boolean;
+  onApply: (preset: BorderPreset, border: CellBorder | null) => void;
+}
+
+const LINE_OPTIONS: { value: BorderLine; label: string }[] = [
+  { value: 'solid', label: '实线' },
+  { value: 'thick', label: '粗线' },
+  { value: 'dashed', label: '虚线' },
+  { value: 'dotted', label: '点线' },
+  { value: 'double', label: '双线' },
+  { value: 'hidden', label: '隐藏' }
+];
+
+const PRESET_OPTIONS: { value: BorderPreset; label: string; title: string }[] = [
+  { value: 'all', label: '⊞', title: '全部边框' },
+  { value: 'outer', label: '□', title: '外框' },
+  { value: 'inner', label: '┼', title: '内部' },
+  { value: 'inner-horizontal', label: '─', title: '内部横线' },
+  { value: 'inner-vertical', label: '│', title: '内部竖线' },
+  { value: 'top', label: '▔', title: '上边框' },
+  { value: 'bottom', label: '▁', title: '下边框' },
+  { value: 'left', label: '▏', title: '左边框' },
+  { value: 'right', label: '▕', title: '右边框' }
+];
+
+// Border overrides for the selection: pick a line and colour, then the edges to apply them to
+const BorderPicker: React.FC<BorderPickerProps> = ({ disabled, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [line, setLine] = useState<BorderLine>('solid');
+  const [color, setColor] = useState<string | null>(null); // null follows the table's line colour
+
+  const apply = (preset: BorderPreset) => {
+    onApply(preset, color && line !== 'hidden' ? { line, color } : { line });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className={`btn-toolbar ${disabled ? 'opacity-50 cursor-not-allowed' : ''} ${open ? 'bg-blue-100 text-blue-700 border-blue-300' : ''}`}
+        title="边框"
+      >
+        ▦
+      </button>
+      {open && !disabled && (
+        <div className="absolute top-full left-0 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-2 z-40 space-y-2 text-xs text-gray-600">
+          <div className="flex items-center gap-2">
+            <select
+              value={line}
+              onChange={(e) => setLine(e.target.value as BorderLine)}
+              className="flex-1 border border-gray-200 rounded px-1 py-0.5"
+            >
+              {LINE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+            <input
+              type="color"
+              value={color ?? '#2d3748'}
+              onChange={(e) => setColor(e.target.value)}
+              disabled={line === 'hidden'}
+              className="w-5 h-5 p-0 border-0 rounded cursor-pointer"
+              title="边框颜色"
+            />
+            {color && (
+              <button onClick={() => setColor(null)} className="text-gray-400 hover:text-gray-600" title="使用表格线条颜色">↺</button>
+            )}
+          </div>
+          <div className="grid grid-cols-5 gap-1">
+            {PRESET_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => apply(option.value)}
+                className="h-7 rounded border border-gray-200 hover:bg-blue-50 hover:border-blue-300 text-sm"
+                title={option.title}
+              >
+                {option.label}
+              </button>
+            ))}
+            <button
+              onClick={() => onApply('all', null)}
+              className="h-7 rounded border border-gray-200 hover:bg-gray-100 text-[11px]"
+              title="清除选区的边框设置，恢复表格默认线条"
+            >
+              重置
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BorderPicker;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { BooleanStyle, ColumnFormat, ColumnType } from '../types';
+import { COLUMN_TYPES, createColumnFormat, formatValue } from '../utils/valueFormat';
+
+interface ColumnFormatMenuProps {
+  format?: ColumnFormat;
+  onChange: (format: ColumnFormat | null) => void;
+}
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  text: 'Text',
+  number: 'Number',
+  currency: 'Currency',
+  percent: 'Percent',
+  date: 'Date',
+  boolean: 'Yes / No'
+};
+
+const DATE_PATTERNS = ['YYYY-MM-DD', 'YYYY/M/D', 'DD.MM.YYYY', 'MM/DD/YYYY', 'MMM D, YYYY', 'YYYY年M月D日'];
+
+const SAMPLES: Partial<Record<ColumnType, string>> = {
+  number: '1234.5',
+  currency: '1234.5',
+  percent: '0.125',
+  date: '2024-03-05'
+};
+
+// Type and format section of the column header menu; changes apply right away
+const ColumnFormatMenu: React.FC<ColumnFormatMenuProps> = ({ format, onChange }) => {
+  const type = format?.type ?? 'text';
+
+  const update = <K extends keyof ColumnFormat>(key: K, value: ColumnFormat[K]) => {
+    if (format) onChange({ ...format, [key]: value });
+  };
+
+  const changeType = (next: ColumnType) => {
+    // Keep the shared options (locale, separators) when switching between types
+    onChange(next === 'text' ? null : { ...createColumnFormat(next), ...(format && { locale: format.locale, thousands: format.thousands }) });
+  };
+
+  const isNumeric = type === 'number' || type === 'currency' || type === 'percent';
+  const sample = SAMPLES[type];
+
+  return (
+    <div className="px-3 py-1.5 space-y-1.5">
+      <label className="flex items-center justify-between gap-2">
+        Type
+        <select
+          value={type}
+          onChange={(e) => changeType(e.target.value as ColumnType)}
+          className="border border-gray-200 rounded px-1 py-0.5"
+        >
+          {COLUMN_TYPES.map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+        </select>
+      </label>
+      {format && isNumeric && (
+        <>
+          <label className="flex items-center justify-between gap-2">
+            Decimals
+            <input
+              type="number"
+              min="0"
+              max="10"
+              value={format.decimals}
+              onChange={(e) => update('decimals', Math.min(10, Math.max(0, parseInt(e.target.value) || 0)))}
+              className="w-14 border border-gray-200 rounded px-1 py-0.5"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Thousands separator
+            <input type="checkbox" checked={format.thousands} onChange={(e) => update('thousands', e.target.checked)} />
+          </label>
+        </>
+      )}
+      {format && type === 'currency' && (
+        <label className="flex items-center justify-between gap-2">
+          Symbol
+          <input
+            type="text"
+            value={format.currencySymbol}
+            onChange={(e) => update('currencySymbol', e.target.value)}
+            className="w-14 border border-gray-200 rounded px-1 py-0.5"
+          />
+        </label>
+      )}
+      {format && type === 'date' && (
+        <label className="flex items-center justify-between gap-2">
+          Pattern
+          <input
+            type="text"
+            list="date-patterns"
+            value={format.datePattern}
+            onChange={(e) => update('datePattern', e.target.value)}
+            className="w-28 border border-gray-200 rounded px-1 py-0.5"
+          />
+          <datalist id="date-patterns">
+            {DATE_PATTERNS.map(p => <option key={p} value={p} />)}
+          </datalist>
+        </label>
+      )}
+      {format && type === 'boolean' && (
+        <label className="flex items-center justify-between gap-2">
+          Show as
+          <select
+            value={format.booleanStyle}
+            onChange={(e) => update('booleanStyle', e.target.value as BooleanStyle)}
+            className="border border-gray-200 rounded px-1 py-0.5"
+          >
+            <option value="marks">✓ / ✗ marks</option>
+            <option value="text">Text as typed</option>
+          </select>
+        </label>
+      )}
+      {format && (isNumeric || type === 'date') && (
+        <label className="flex items-center justify-between gap-2">
+          Locale
+          <input
+            type="text"
+            value={format.locale}
+            onChange={(e) => update('locale', e.target.value)}
+            className="w-20 border border-gray-200 rounded px-1 py-0.5"
+            placeholder="Browser"
+            title="e.g. en-US, de-DE, zh-CN"
+          />
+        </label>
+      )}
+      {format && sample && (
+        <p className="text-gray-400">{sample} → {formatValue(sample, format)}</p>
+      )}
+    </div>
+  );
+};
+
+export default ColumnFormatMenu;
@@ -1,21 +1,89 @@
 import React, { useState } from 'react';
-import { TableConfig, GenerateStatus } from '../types';
+import {
+  TableConfig, TableData, TableStyle, GenerateStatus, CanvasBackground, FillStyle, GridLines, HeaderSeparator, HistorySetter,
+  DocumentMeta
+} from '../types';
+import { randomSeed } from '../utils/sketchUtils';
+import { applyStyle } from '../utils/stylePresets';
+import { DEFAULT_BACKGROUND_COLORS, setCanvasBackground } from '../utils/canvasBackground';
+import ImportExportPanel from './ImportExportPanel';
+import DocumentLibrary from './DocumentLibrary';
+import ThemeGallery from './ThemeGallery';
+
+const FILL_STYLE_OPTIONS: { value: FillStyle; label: string }[] = [
+  { value: 'none', label: '无填充' },
+  { value: 'hachure', label: '斜线' },
+  { value: 'cross-hatch', label: '交叉线' },
+  { value: 'zigzag', label: '锯齿线' },
+  { value: 'dots', label: '圆点' },
+  { value: 'solid', label: '实心' }
+];
+
+const BACKGROUND_OPTIONS: { value: CanvasBackground; label: string }[] = [
+  { value: 'none', label: '透明' },
+  { value: 'color', label: '纯色' },
+  { value: 'paper', label: '纸张' },
+  { value: 'grid', label: '方格纸' },
+  { value: 'lined', label: '横线本' },
+  { value: 'chalkboard', label: '黑板' }
+];
+
+const GRID_LINE_OPTIONS: { value: GridLines; label: string }[] = [
+  { value: 'all', label: '全部' },
+  { value: 'outer', label: '仅外框' },
+  { value: 'horizontal', label: '仅横线' },
+  { value: 'no-vertical', label: '无内部竖线' },
+  { value: 'none', label: '无' }
+];
+
+const SEPARATOR_OPTIONS: { value: HeaderSeparator; label: string }[] = [
+  { value: 'single', label: '普通' },
+  { value: 'thick', label: '加粗' },
+  { value: 'double', label: '双线' }
+];
 
 interface ControlsProps {
   config: TableConfig;
-  setConfig: React.Dispatch<React.SetStateAction<TableConfig>>;
+  setConfig: HistorySetter<TableConfig>;
+  data: TableData;
+  onImportData: (data: TableData) => void;
   onGenerate: (prompt: string) => void;
   onReset: () => void;
   onSave: () => void;
   status: GenerateStatus;
+  documents: DocumentMeta[];
+  activeDocumentId: string;
+  onSelectDocument: (id: string) => void;
+  onCreateDocument: () => void;
+  onRenameDocument: (id: string, name: string) => void;
+  onDuplicateDocument: (id: string) => void;
+  onDeleteDocument: (id: string) => void;
 }
 
-const Controls: React.FC<ControlsProps> = ({ config, setConfig, onGenerate, onReset, onSave, status }) => {
+const Controls: React.FC<ControlsProps> = ({
+  config, setConfig, data, onImportData, onGenerate, onReset, onSave, status,
+  documents, activeDocumentId, onSelectDocument, onCreateDocument, onRenameDocument, onDuplicateDocument, onDeleteDocument
+}) => {
   const [prompt, setPrompt] = useState('');
   const [saveFeedback, setSaveFeedback] = useState(false);
 
-  const handleChange = (key: keyof TableConfig, value: string | number) => {
-    setConfig(prev => ({ ...prev, [key]: value }));
+  const handleChange = (key: keyof TableConfig, value: string | number | boolean) => {
+    // Dragging a slider or colour picker becomes a single undo step
+    setConfig(prev => ({ ...prev, [key]: value }), `config-${key}`);
+  };
+
+  // A theme replaces the whole look in one undo step; the table's layout is kept
+  const handleApplyStyle = (style: TableStyle) => {
+    setConfig(prev => applyStyle(prev, style));
+  };
+
+  // Line and text colours follow the canvas between light and dark (see setCanvasBackground)
+  const handleBackgroundChange = (background: CanvasBackground) => {
+    setConfig(prev => setCanvasBackground(prev, background, DEFAULT_BACKGROUND_COLORS[background]));
+  };
+
+  const handleBackgroundColorChange = (color: string) => {
+    setConfig(prev => setCanvasBackground(prev, prev.background, color), 'config-backgroundColor');
   };
 
   const handleSaveClick = () => {
@@ -34,6 +102,19 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, onGenerate, onRe
       </div>
 
       <div className="p-6 space-y-8">
+
+        {/* Document Library */}
+        <DocumentLibrary
+          documents={documents}
+          activeId={activeDocumentId}
+          onSelect={onSelectDocument}
+          onCreate={onCreateDocument}
+          onRename={onRenameDocument}
+          onDuplicate={onDuplicateDocument}
+          onDelete={onDeleteDocument}
+        />
+
+        <hr className="border-gray-100" />
         
         {/* Persistence Section */}
         <div className="space-y-3">
@@ -59,7 +140,7 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, onGenerate, onRe
             <button
               onClick={onReset}
               className="py-2 px-3 rounded-lg text-gray-600 text-sm font-medium border border-gray-200 hover:bg-gray-50 transition-all active:scale-95"
-              title="重置所有内容"
+              title="重置当前表格"
             >
               <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"></path><path d="M3 3v5h5"></path></svg>
             </button>
@@ -103,9 +184,16 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, onGenerate, onRe
 
         <hr className="border-gray-100" />
 
+        {/* Import / Export Section */}
+        <ImportExportPanel data={data} onImportData={onImportData} />
+
+        <hr className="border-gray-100" />
+
         {/* Style Controls */}
         <div className="space-y-6">
            <h3 className="text-sm font-semibold text-gray-700">🎨 风格设置</h3>
+
+           <ThemeGallery config={config} onApply={handleApplyStyle} />
            
             {/* Width Scale */}
            <div className="space-y-2">
@@ -149,6 +237,21 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, onGenerate, onRe
              />
            </div>
 
+           {/* Seed */}
+           <div className="flex items-center justify-between">
+             <div className="text-xs text-gray-500">
+                <label>手绘随机种子</label>
+                <span className="ml-2 font-mono text-gray-400">#{config.seed}</span>
+             </div>
+             <button
+               onClick={() => handleChange('seed', randomSeed())}
+               className="py-1 px-2 rounded text-xs font-medium text-gray-600 border border-gray-200 hover:bg-gray-50 transition-all active:scale-95"
+               title="换一种手绘效果"
+             >
+               🎲 重新绘制
+             </button>
+           </div>
+
             {/* Stroke Width */}
            <div className="space-y-2">
              <div className="flex justify-between text-xs text-gray-500">
@@ -163,6 +266,45 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, onGenerate, onRe
              />
            </div>
 
+           {/* Canvas */}
+           <div className="flex items-center justify-between gap-2">
+              <label className="text-sm text-gray-600">画布背景</label>
+              <div className="flex items-center gap-2">
+                {config.background !== 'none' && (
+                  <input
+                    type="color"
+                    value={config.backgroundColor}
+                    onChange={(e) => handleBackgroundColorChange(e.target.value)}
+                    className="w-6 h-6 p-0 border-0 rounded cursor-pointer"
+                    title="背景颜色"
+                  />
+                )}
+                <select
+                  value={config.background}
+                  onChange={(e) => handleBackgroundChange(e.target.value as CanvasBackground)}
+                  className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {BACKGROUND_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+           </div>
+
+           {/* Grid Lines; borders set on cells in the editor are drawn either way */}
+           <div className="flex items-center justify-between gap-2">
+              <label className="text-sm text-gray-600">网格线</label>
+              <select
+                value={config.gridLines}
+                onChange={(e) => handleChange('gridLines', e.target.value)}
+                className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {GRID_LINE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+           </div>
+
            {/* Colors */}
            <div className="grid grid-cols-2 gap-4">
               <div className="space-y-1">
@@ -192,29 +334,162 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, onGenerate, onRe
               </div>
            </div>
            
-           <div className="space-y-2">
-               <label className="flex items-center gap-2 cursor-pointer">
-                  <input 
-                    type="checkbox"
-                    checked={config.fill === 'hachure'}
-                    onChange={(e) => handleChange('fill', e.target.checked ? 'hachure' : 'none')}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <span className="text-sm text-gray-600">表头高亮</span>
-               </label>
-                {config.fill === 'hachure' && (
-                    <div className="flex items-center gap-2 ml-6">
-                        <input 
-                            type="color" 
-                            value={config.fillColor}
-                            onChange={(e) => handleChange('fillColor', e.target.value)}
-                            className="w-6 h-6 p-0 border-0 rounded cursor-pointer"
-                        />
-                        <span className="text-xs text-gray-400">填充颜色</span>
+           {/* Headers */}
+           <div className="space-y-3">
+               <div className="grid grid-cols-2 gap-4">
+                  <label className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                    表头行数
+                    <input
+                      type="number" min="0" max="10"
+                      value={config.headerRows}
+                      onChange={(e) => handleChange('headerRows', Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-12 text-sm border border-gray-300 rounded-md px-1 py-0.5"
+                    />
+                  </label>
+                  <label className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                    表头列数
+                    <input
+                      type="number" min="0" max="10"
+                      value={config.headerColumns}
+                      onChange={(e) => handleChange('headerColumns', Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-12 text-sm border border-gray-300 rounded-md px-1 py-0.5"
+                    />
+                  </label>
+               </div>
+               <div className="flex items-center justify-between gap-2">
+                  <label className="text-xs text-gray-500">表头分隔线</label>
+                  <select
+                    value={config.headerSeparator}
+                    onChange={(e) => handleChange('headerSeparator', e.target.value)}
+                    className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {SEPARATOR_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+               </div>
+               {([
+                 { label: '表头字号', size: 'headerFontSize', bold: 'headerBold' },
+                 { label: '正文字号', size: 'bodyFontSize', bold: 'bodyBold' }
+               ] as const).map(({ label, size, bold }) => (
+                 <div key={size} className="space-y-1">
+                   <div className="flex justify-between items-center text-xs text-gray-500">
+                      <label>{label}</label>
+                      <div className="flex items-center gap-2">
+                        <label className="flex items-center gap-1">
+                          <input type="checkbox" checked={config[bold]} onChange={(e) => handleChange(bold, e.target.checked)} />
+                          粗体
+                        </label>
+                        <span className="w-8 text-right">{config[size]}px</span>
+                      </div>
+                   </div>
+                   <input
+                     type="range" min="10" max="36" step="1"
+                     value={config[size]}
+                     onChange={(e) => handleChange(size, parseFloat(e.target.value))}
+                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                   />
+                 </div>
+               ))}
+           </div>
+
+           {/* Header Fill */}
+           <div className="space-y-3">
+               <div className="flex items-center justify-between gap-2">
+                  <label className="text-sm text-gray-600">表头填充</label>
+                  <select
+                    value={config.fill}
+                    onChange={(e) => handleChange('fill', e.target.value)}
+                    className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {FILL_STYLE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+               </div>
+                {config.fill !== 'none' && (
+                    <div className="space-y-3 ml-2">
+                        <div className="flex items-center gap-2">
+                            <input 
+                                type="color" 
+                                value={config.fillColor}
+                                onChange={(e) => handleChange('fillColor', e.target.value)}
+                                className="w-6 h-6 p-0 border-0 rounded cursor-pointer"
+                            />
+                            <span className="text-xs text-gray-400">填充颜色</span>
+                        </div>
+
+                        {config.fill !== 'solid' && (
+                          <>
+                            <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-gray-500">
+                                <label>线条角度</label>
+                                <span>{config.fillAngle}°</span>
+                              </div>
+                              <input 
+                                type="range" min="-90" max="90" step="1"
+                                value={config.fillAngle}
+                                onChange={(e) => handleChange('fillAngle', parseFloat(e.target.value))}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                              />
+                            </div>
+
+                            <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-gray-500">
+                                <label>线条间距</label>
+                                <span>{config.fillGap}px</span>
+                              </div>
+                              <input 
+                                type="range" min="3" max="20" step="1"
+                                value={config.fillGap}
+                                onChange={(e) => handleChange('fillGap', parseFloat(e.target.value))}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                              />
+                            </div>
+
+                            <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-gray-500">
+                                <label>{config.fill === 'dots' ? '圆点大小' : '线条粗细'}</label>
+                                <span>{config.fillWeight}px</span>
+                              </div>
+                              <input 
+                                type="range" min="0.5" max="4" step="0.5"
+                                value={config.fillWeight}
+                                onChange={(e) => handleChange('fillWeight', parseFloat(e.target.value))}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                              />
+                            </div>
+                          </>
+                        )}
                     </div>
                 )}
            </div>
 
+           {/* Body Fill, sharing the hatch settings of the header fill */}
+           <div className="flex items-center justify-between gap-2">
+              <label className="text-sm text-gray-600">正文填充</label>
+              <div className="flex items-center gap-2">
+                {config.bodyFill !== 'none' && (
+                  <input
+                    type="color"
+                    value={config.bodyFillColor}
+                    onChange={(e) => handleChange('bodyFillColor', e.target.value)}
+                    className="w-6 h-6 p-0 border-0 rounded cursor-pointer"
+                    title="填充颜色"
+                  />
+                )}
+                <select
+                  value={config.bodyFill}
+                  onChange={(e) => handleChange('bodyFill', e.target.value)}
+                  className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {FILL_STYLE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+           </div>
+
         </div>
       </div>
       
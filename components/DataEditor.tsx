@@ -1,11 +1,26 @@
-import React, { useState, useEffect } from 'react';
-import { TableData, TableConfig } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { TableData, TableConfig, CellBorder, CellStyle, ColumnFilter, ColumnFormat, ColumnType, HistorySetter } from '../types';
+import FormatToolbar from './FormatToolbar';
+import SortFilterMenu from './SortFilterMenu';
+import ColumnFormatMenu from './ColumnFormatMenu';
+import { getRangeGrid, gridToHtml, gridToTsv, pasteGrid, readClipboardGrid } from '../utils/clipboardUtils';
+import {
+  LineBlock, deleteColumn, deleteRow, expandRange, getColumnBlock, getRowBlock, hasMergeInRange, insertColumn, insertRow,
+  isColumnBoundary, isHeaderCell, isRowBoundary, mergeRange, moveColumns, moveRows, removeSize, reorderSizes, selectRows,
+  shiftSizes, unmergeRange
+} from '../utils/tableModel';
+import {
+  SortMode, SortOrder, canFilterRows, getVisibleRows, removeFilterColumn, reorderFilters, shiftFilters, sortRows
+} from '../utils/sortFilter';
+import { BorderPreset, applyBorders } from '../utils/borders';
+import { applyComputedValues, columnName, evaluateTable, isFormula, remapReferences } from '../utils/formulaUtils';
+import { toggleMarkup } from '../utils/richText';
 
 interface DataEditorProps {
   data: TableData;
-  setData: React.Dispatch<React.SetStateAction<TableData>>;
+  setData: HistorySetter<TableData>;
   config: TableConfig;
-  setConfig: React.Dispatch<React.SetStateAction<TableConfig>>;
+  setConfig: HistorySetter<TableConfig>;
 }
 
 interface Selection {
@@ -13,6 +28,16 @@ interface Selection {
   end: { r: number; c: number };
 }
 
+interface CellPosition {
+  r: number;
+  c: number;
+}
+
+// The cell whose textarea accepts input; every other cell is read-only and navigated with the keyboard
+interface EditState extends CellPosition {
+  original: string; // Restored on Escape
+}
+
 interface ResizeState {
   type: 'col' | 'row';
   index: number;
@@ -20,12 +45,57 @@ interface ResizeState {
   startSize: number;
 }
 
+type LineType = 'row' | 'col';
+
+interface HeaderMenu {
+  type: LineType;
+  index: number;
+  x: number;
+  y: number;
+}
+
+// Header drag: the block being moved (merges move as a whole) and the gap it would drop into
+interface DragState {
+  type: LineType;
+  block: LineBlock;
+  before: number | null;
+}
+
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// Shown next to the column letter of typed columns
+const TYPE_BADGES: Record<ColumnType, string> = {
+  text: '',
+  number: '123',
+  currency: '¤',
+  percent: '%',
+  date: 'date',
+  boolean: '✓'
+};
+
 const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfig }) => {
   const [selection, setSelection] = useState<Selection | null>(null);
   const [isSelecting, setIsSelecting] = useState(false);
   const [resizing, setResizing] = useState<ResizeState | null>(null);
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [headerMenu, setHeaderMenu] = useState<HeaderMenu | null>(null);
+  const [dragging, setDragging] = useState<DragState | null>(null);
+  const [sortMode, setSortMode] = useState<SortMode>('natural');
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Cell to focus after the next render (keyboard navigation, entering edit mode), optionally
+  // with the text selection to restore after the value was changed from a shortcut
+  const focusRequest = useRef<{ r: number; c: number; caretEnd: boolean; select?: [number, number] } | null>(null);
+
+  useEffect(() => {
+    const request = focusRequest.current;
+    if (!request) return;
+    focusRequest.current = null;
+    const textarea = gridRef.current?.querySelector<HTMLTextAreaElement>(`textarea[data-cell="${request.r}:${request.c}"]`);
+    if (!textarea) return;
+    textarea.focus();
+    if (request.select) textarea.setSelectionRange(...request.select);
+    else if (request.caretEnd) textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  });
 
   // Global resize handlers
   useEffect(() => {
@@ -39,14 +109,14 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
         setConfig(prev => ({
           ...prev,
           customColumnWidths: { ...prev.customColumnWidths, [resizing.index]: newWidth }
-        }));
+        }), `resize-col-${resizing.index}`);
       } else {
         const diff = e.clientY - resizing.startPos;
         const newHeight = Math.max(30, resizing.startSize + diff);
         setConfig(prev => ({
           ...prev,
           customRowHeights: { ...prev.customRowHeights, [resizing.index]: newHeight }
-        }));
+        }), `resize-row-${resizing.index}`);
       }
     };
 
@@ -81,7 +151,8 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
     const cell = { ...newData[rowIndex][colIndex], value };
     newData[rowIndex] = [...newData[rowIndex]];
     newData[rowIndex][colIndex] = cell;
-    setData(newData);
+    // Consecutive keystrokes in the same cell form one undo step
+    setData(newData, `edit-${cell.id}`);
   };
 
   const addRow = () => {
@@ -89,14 +160,7 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
       setData([[{ id: generateId(), value: "New Cell", rowSpan: 1, colSpan: 1 }]]);
       return;
     }
-    const colCount = data[0].length;
-    const newRow = Array.from({ length: colCount }).map(() => ({
-      id: generateId(),
-      value: "",
-      rowSpan: 1,
-      colSpan: 1
-    }));
-    setData([...data, newRow]);
+    setData(insertRow(data, data.length));
   };
 
   const addCol = () => {
@@ -104,47 +168,185 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
       setData([[{ id: generateId(), value: "New Cell", rowSpan: 1, colSpan: 1 }]]);
       return;
     }
-    const newData = data.map(row => [
-      ...row, 
-      { id: generateId(), value: "", rowSpan: 1, colSpan: 1 }
-    ]);
-    setData(newData);
+    setData(insertColumn(data, data[0].length));
   };
 
   const removeRow = (index: number) => {
-    const newData = data.filter((_, i) => i !== index);
-    setData(newData);
-    
-    // Adjust row height indices
-    const newHeights: Record<number, number> = {};
-    Object.keys(config.customRowHeights || {}).forEach(key => {
-        const k = parseInt(key);
-        if (k < index) newHeights[k] = config.customRowHeights[k];
-        if (k > index) newHeights[k - 1] = config.customRowHeights[k];
-    });
-    setConfig(prev => ({ ...prev, customRowHeights: newHeights }));
+    // Data and row heights change together, sharing a key keeps them in one undo step
+    const step = `remove-row-${generateId()}`;
+    setData(remapReferences(deleteRow(data, index), 'row', i => (i === index ? null : i > index ? i - 1 : i)), step);
+    setConfig(prev => ({ ...prev, customRowHeights: removeSize(prev.customRowHeights, index) }), step);
     setSelection(null);
+    setEditing(null);
   };
 
   const removeCol = (index: number) => {
-    const newData = data.map(row => row.filter((_, i) => i !== index));
-    if (newData.length === 0 || newData[0].length === 0) {
-        setData([]);
+    const step = `remove-col-${generateId()}`;
+    setData(remapReferences(deleteColumn(data, index), 'col', i => (i === index ? null : i > index ? i - 1 : i)), step);
+    setConfig(prev => ({
+      ...prev,
+      customColumnWidths: removeSize(prev.customColumnWidths, index),
+      filters: removeFilterColumn(prev.filters, index),
+      columnFormats: removeSize(prev.columnFormats, index)
+    }), step);
+    setSelection(null);
+    setEditing(null);
+  };
+
+  // Insert an empty row / column; merges it cuts through grow and custom sizes shift with their lines
+  const insertLine = (type: LineType, index: number) => {
+    const step = `insert-${type}-${generateId()}`;
+    if (type === 'row') {
+      setData(remapReferences(insertRow(data, index), 'row', i => (i >= index ? i + 1 : i)), step);
+      setConfig(prev => ({ ...prev, customRowHeights: shiftSizes(prev.customRowHeights, index) }), step);
+      setSelection({ start: { r: index, c: 0 }, end: { r: index, c: 0 } });
     } else {
-        setData(newData);
+      setData(remapReferences(insertColumn(data, index), 'col', i => (i >= index ? i + 1 : i)), step);
+      setConfig(prev => ({
+        ...prev,
+        customColumnWidths: shiftSizes(prev.customColumnWidths, index),
+        filters: shiftFilters(prev.filters, index),
+        columnFormats: shiftSizes(prev.columnFormats, index)
+      }), step);
+      setSelection({ start: { r: 0, c: index }, end: { r: 0, c: index } });
     }
-    
-    // Adjust column width indices
-    const shiftedWidths: Record<number, number> = {};
-    Object.keys(config.customColumnWidths).forEach(key => {
-        const k = parseInt(key);
-        if (k < index) shiftedWidths[k] = config.customColumnWidths[k];
-        if (k > index) shiftedWidths[k - 1] = config.customColumnWidths[k];
-    });
-    setConfig(prev => ({ ...prev, customColumnWidths: shiftedWidths }));
+    setEditing(null);
+    setHeaderMenu(null);
+  };
+
+  const openHeaderMenu = (e: React.MouseEvent, type: LineType, index: number) => {
+    e.preventDefault();
+    setHeaderMenu({ type, index, x: e.clientX, y: e.clientY });
+  };
+
+  useEffect(() => {
+    if (!headerMenu) return;
+    const close = () => setHeaderMenu(null);
+    const closeOnEscape = (e: KeyboardEvent) => { if (e.key === 'Escape') close(); };
+    window.addEventListener('mousedown', close);
+    window.addEventListener('scroll', close, true);
+    window.addEventListener('keydown', closeOnEscape);
+    return () => {
+      window.removeEventListener('mousedown', close);
+      window.removeEventListener('scroll', close, true);
+      window.removeEventListener('keydown', closeOnEscape);
+    };
+  }, [headerMenu]);
+
+  // Header drag and drop
+  const handleHeaderDragStart = (e: React.DragEvent, type: LineType, index: number) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', ''); // Firefox only starts a drag with data set
+    const block = type === 'row' ? getRowBlock(data, index) : getColumnBlock(data, index);
+    setDragging({ type, block, before: null });
+    setEditing(null);
+  };
+
+  // Drop before or after the hovered line depending on which half the pointer is in
+  const handleHeaderDragOver = (e: React.DragEvent, type: LineType, index: number) => {
+    if (!dragging || dragging.type !== type) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const firstHalf = type === 'row' ? e.clientY < rect.top + rect.height / 2 : e.clientX < rect.left + rect.width / 2;
+    const before = firstHalf ? index : index + 1;
+
+    const insideBlock = before >= dragging.block.start && before <= dragging.block.end + 1;
+    const boundary = type === 'row' ? isRowBoundary(data, before) : isColumnBoundary(data, before);
+    const target = !insideBlock && boundary ? before : null;
+    if (target !== null) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    }
+    if (target !== dragging.before) setDragging({ ...dragging, before: target });
+  };
+
+  const handleHeaderDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (!dragging || dragging.before === null) return;
+    const { type, block, before } = dragging;
+    setDragging(null);
+
+    const result = type === 'row' ? moveRows(data, block, before) : moveColumns(data, block, before);
+    if (!result) return;
+    const step = `move-${type}-${generateId()}`;
+    setData(remapReferences(result.data, type, i => result.newIndex[i] ?? i), step);
+    setConfig(prev => (type === 'row'
+      ? { ...prev, customRowHeights: reorderSizes(prev.customRowHeights, result.newIndex) }
+      : {
+          ...prev,
+          customColumnWidths: reorderSizes(prev.customColumnWidths, result.newIndex),
+          filters: reorderFilters(prev.filters, result.newIndex),
+          columnFormats: reorderSizes(prev.columnFormats, result.newIndex)
+        }
+    ), step);
+
+    const start = result.newIndex[block.start];
+    const end = result.newIndex[block.end];
+    const lastRow = result.data.length - 1;
+    const lastCol = (result.data[0]?.length ?? 1) - 1;
+    setSelection(type === 'row'
+      ? { start: { r: start, c: 0 }, end: { r: end, c: lastCol } }
+      : { start: { r: 0, c: start }, end: { r: lastRow, c: end } });
+  };
+
+  const isDragged = (type: LineType, index: number) =>
+    dragging?.type === type && index >= dragging.block.start && index <= dragging.block.end;
+
+  // Blue marker on the edge of the header where the dragged lines would land
+  const getDropMarker = (type: LineType, index: number, count: number) => {
+    if (dragging?.type !== type || dragging.before === null) return '';
+    if (dragging.before === index) return type === 'row' ? 'shadow-[inset_0_3px_0_#3b82f6]' : 'shadow-[inset_3px_0_0_#3b82f6]';
+    if (dragging.before === count && index === count - 1) return type === 'row' ? 'shadow-[inset_0_-3px_0_#3b82f6]' : 'shadow-[inset_-3px_0_0_#3b82f6]';
+    return '';
+  };
+
+  // Sorting reorders the body rows for good (one undo step); filtering only hides rows from the drawing.
+  // Both look at formula results rather than the formula text.
+  const sortByColumn = (col: number, order: SortOrder) => {
+    const result = sortRows(computedData, col, order, sortMode, config.headerRows);
+    setHeaderMenu(null);
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+    const step = `sort-${generateId()}`;
+    const rows: number[] = [];
+    result.newIndex.forEach((newIndex, oldIndex) => { rows[newIndex] = oldIndex; });
+    setData(remapReferences(selectRows(data, rows), 'row', i => result.newIndex[i] ?? i), step);
+    setConfig(prev => ({ ...prev, customRowHeights: reorderSizes(prev.customRowHeights, result.newIndex) }), step);
     setSelection(null);
+    setEditing(null);
+  };
+
+  const applyFilter = (filter: ColumnFilter) => {
+    setHeaderMenu(null);
+    if (!canFilterRows(data, config.headerRows)) {
+      alert('表头与正文之间有纵向合并的单元格，无法筛选。请先取消该合并。');
+      return;
+    }
+    setConfig(prev => ({ ...prev, filters: [...prev.filters.filter(f => f.col !== filter.col), filter] }));
+  };
+
+  const clearFilter = (col?: number) => {
+    setHeaderMenu(null);
+    setConfig(prev => ({ ...prev, filters: col === undefined ? [] : prev.filters.filter(f => f.col !== col) }));
   };
 
+  // Typing into a format option coalesces into one undo step per column
+  const setColumnFormat = (col: number, format: ColumnFormat | null) => {
+    setConfig(prev => {
+      const columnFormats = { ...prev.columnFormats };
+      if (format) columnFormats[col] = format;
+      else delete columnFormats[col];
+      return { ...prev, columnFormats };
+    }, `format-${col}`);
+  };
+
+  // The sheet is evaluated once per change of the data, not on every render
+  const formulaResults = useMemo(() => evaluateTable(data), [data]);
+  const computedData = useMemo(() => applyComputedValues(data, formulaResults), [data, formulaResults]);
+  const visibleRows = new Set(getVisibleRows(computedData, config.filters, config.headerRows));
+  const headerRowCount = Math.min(config.headerRows, data.length);
+
   // Selection Logic
   const handleMouseDown = (r: number, c: number) => {
     setSelection({ start: { r, c }, end: { r, c } });
@@ -170,70 +372,253 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
     return r >= minR && r <= maxR && c >= minC && c <= maxC;
   };
 
-  const mergeCells = () => {
+  // Keyboard navigation
+  const getOwner = (r: number, c: number): CellPosition => {
+    const cell = data[r][c];
+    return cell.hidden ? { r: cell.ownerRow ?? r, c: cell.ownerCol ?? c } : { r, c };
+  };
+
+  const focusCell = (r: number, c: number, caretEnd = false) => {
+    focusRequest.current = { r, c, caretEnd };
+  };
+
+  // Move the active cell one step, leaving a merged cell from its far edge and landing on owners
+  const moveActive = (dr: number, dc: number) => {
+    if (!selection) return;
+    const owner = getOwner(selection.start.r, selection.start.c);
+    const cell = data[owner.r][owner.c];
+    const r = dr > 0 ? owner.r + cell.rowSpan : dr < 0 ? owner.r - 1 : owner.r;
+    const c = dc > 0 ? owner.c + cell.colSpan : dc < 0 ? owner.c - 1 : owner.c;
+    if (r < 0 || r >= data.length || c < 0 || c >= data[0].length) return;
+
+    const target = getOwner(r, c);
+    setSelection({ start: target, end: target });
+    focusCell(target.r, target.c);
+  };
+
+  // Shift+arrows: move the far corner of the range, the active cell stays put
+  const extendSelection = (dr: number, dc: number) => {
+    if (!selection) return;
+    const end = {
+      r: Math.min(data.length - 1, Math.max(0, selection.end.r + dr)),
+      c: Math.min(data[0].length - 1, Math.max(0, selection.end.c + dc))
+    };
+    setSelection({ ...selection, end });
+  };
+
+  const startEditing = (r: number, c: number, caretEnd: boolean) => {
+    setEditing({ r, c, original: data[r][c].value });
+    focusCell(r, c, caretEnd);
+  };
+
+  const cancelEditing = () => {
+    if (!editing) return;
+    const cell = data[editing.r]?.[editing.c];
+    // Same step key as the edits: writing the original back drops the undo step of the typing.
+    // Typing with long pauses makes several steps; then the revert is a step of its own.
+    if (cell && cell.value !== editing.original) handleCellChange(editing.r, editing.c, editing.original);
+    focusCell(editing.r, editing.c);
+    setEditing(null);
+  };
+
+  // Clear the values of every cell in the selection as one undo step; styles are kept
+  const clearRange = () => {
     const range = getRange();
     if (!range) return;
     const { minR, maxR, minC, maxC } = range;
-    if (minR === maxR && minC === maxC) return;
-
-    const newData = data.map(row => row.map(cell => ({ ...cell })));
-    let combinedValue = "";
-    for(let r = minR; r <= maxR; r++) {
-      for(let c = minC; c <= maxC; c++) {
-        if (!newData[r][c].hidden && newData[r][c].value) {
-            combinedValue += (combinedValue ? "\n" : "") + newData[r][c].value;
-        }
+    const newData = data.map((row, r) => row.map((cell, c) => {
+      if (r < minR || r > maxR || c < minC || c > maxC || cell.hidden || !cell.value) return cell;
+      return { ...cell, value: '' };
+    }));
+    setData(newData);
+  };
+
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>, r: number, c: number) => {
+    if (e.nativeEvent.isComposing) return;
+    const shortcut = (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey ? e.key.toLowerCase() : null;
+
+    if (editing?.r === r && editing?.c === c) {
+      // Edit mode: arrows move the caret, Shift+Enter inserts a line break, Ctrl+B / Ctrl+I
+      // wrap the selected text in bold / italic markup
+      if (shortcut === 'b' || shortcut === 'i') {
+        e.preventDefault();
+        const { value, selectionStart, selectionEnd } = e.currentTarget;
+        const next = toggleMarkup(value, selectionStart, selectionEnd, shortcut === 'b' ? '**' : '*');
+        handleCellChange(r, c, next.value);
+        focusRequest.current = { r, c, caretEnd: false, select: [next.start, next.end] };
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        cancelEditing();
+      } else if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        setEditing(null);
+        if (e.key === 'Tab') moveActive(0, e.shiftKey ? -1 : 1);
+        else moveActive(1, 0);
       }
+      return;
     }
 
-    const master = newData[minR][minC];
-    master.value = combinedValue;
-    master.rowSpan = maxR - minR + 1;
-    master.colSpan = maxC - minC + 1;
-    master.hidden = false;
-    delete master.ownerRow;
-    delete master.ownerCol;
-
-    for(let r = minR; r <= maxR; r++) {
-      for(let c = minC; c <= maxC; c++) {
-        if (r === minR && c === minC) continue;
-        newData[r][c].hidden = true;
-        newData[r][c].rowSpan = 1;
-        newData[r][c].colSpan = 1;
-        newData[r][c].ownerRow = minR;
-        newData[r][c].ownerCol = minC;
-        newData[r][c].value = "";
-      }
+    const arrows: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1]
+    };
+    if (arrows[e.key]) {
+      e.preventDefault();
+      const [dr, dc] = arrows[e.key];
+      if (e.shiftKey) extendSelection(dr, dc);
+      else moveActive(dr, dc);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      moveActive(0, e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      moveActive(e.shiftKey ? -1 : 1, 0);
+    } else if (e.key === 'F2') {
+      e.preventDefault();
+      startEditing(r, c, true);
+    } else if (shortcut === 'b' || shortcut === 'i') {
+      // Outside edit mode the shortcuts style the whole selection, like the toolbar buttons
+      e.preventDefault();
+      const style = getSelectionStyle();
+      applyStyle(shortcut === 'b' ? { bold: !style.bold } : { italic: !style.italic });
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      clearRange();
+    } else if (e.key === 'Process') {
+      // An IME composition is starting: it has to land in an editable textarea right away,
+      // so unlock it before React re-renders and let the composition replace the content
+      e.currentTarget.readOnly = false;
+      e.currentTarget.select();
+      setSelection({ start: { r, c }, end: { r, c } });
+      setEditing({ r, c, original: data[r][c].value });
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      // Typing replaces the content, like a spreadsheet
+      e.preventDefault();
+      const original = data[r][c].value;
+      handleCellChange(r, c, e.key);
+      setSelection({ start: { r, c }, end: { r, c } });
+      setEditing({ r, c, original });
+      focusCell(r, c, true);
     }
-    setData(newData);
-    setSelection({ start: { r: minR, c: minC }, end: { r: minR, c: minC } });
+  };
+
+  // Ranges that partly overlap a merge are widened to contain it
+  const mergeCells = () => {
+    const range = getRange();
+    if (!range) return;
+    const result = mergeRange(data, range);
+    if (result.data === data) return;
+    setData(result.data);
+    const owner = { r: result.range.minR, c: result.range.minC };
+    setSelection({ start: owner, end: owner });
   };
 
   const unmergeCells = () => {
     const range = getRange();
     if (!range) return;
-    const { minR, minC } = range;
-    const cell = data[minR][minC];
-    if (cell.rowSpan === 1 && cell.colSpan === 1) return;
-
-    const newData = data.map(row => row.map(c => ({ ...c })));
-    const rSpan = cell.rowSpan;
-    const cSpan = cell.colSpan;
-
-    newData[minR][minC].rowSpan = 1;
-    newData[minR][minC].colSpan = 1;
-
-    for(let r = minR; r < minR + rSpan; r++) {
-      for(let c = minC; c < minC + cSpan; c++) {
-         if (r === minR && c === minC) continue;
-         newData[r][c].hidden = false;
-         delete newData[r][c].ownerRow;
-         delete newData[r][c].ownerCol;
-      }
+    setData(unmergeRange(data, range));
+  };
+
+  // Spreadsheet ranges pasted into any cell are spread over the grid from the selection start
+  const handlePaste = (e: React.ClipboardEvent) => {
+    let grid = readClipboardGrid(e.clipboardData);
+    if (!grid) {
+      if (editing) return; // Plain text while editing: let the textarea handle it
+      const text = e.clipboardData.getData('text/plain');
+      if (!text) return;
+      grid = { values: [[text.replace(/\r\n?/g, '\n')]], merges: [] };
+    }
+    e.preventDefault();
+
+    const range = getRange();
+    const startR = range?.minR ?? 0;
+    const startC = range?.minC ?? 0;
+    setData(pasteGrid(data, grid, startR, startC));
+    setSelection({
+      start: { r: startR, c: startC },
+      end: { r: startR + grid.values.length - 1, c: startC + (grid.values[0]?.length ?? 1) - 1 }
+    });
+  };
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    const range = getRange();
+    if (!range || editing) return; // While editing: normal copy of the selected text
+    e.preventDefault();
+
+    const grid = getRangeGrid(data, range);
+    if (range.minR === range.maxR && range.minC === range.maxC) {
+      // A single cell copies as its plain value, not as a quoted TSV field
+      e.clipboardData.setData('text/plain', grid.values[0][0]);
+    } else {
+      e.clipboardData.setData('text/plain', gridToTsv(grid));
     }
+    e.clipboardData.setData('text/html', gridToHtml(grid));
+  };
+
+  const handleCut = (e: React.ClipboardEvent) => {
+    if (!selection || editing) return;
+    handleCopy(e);
+    clearRange();
+  };
+
+  // Apply a style patch to every visible cell in the selection; undefined values reset to default
+  const applyStyle = (patch: Partial<CellStyle>) => {
+    const range = getRange();
+    if (!range) return;
+    const { minR, maxR, minC, maxC } = range;
+
+    const newData = data.map((row, r) => row.map((cell, c) => {
+      if (r < minR || r > maxR || c < minC || c > maxC || cell.hidden) return cell;
+      const style: CellStyle = { ...cell.style, ...patch };
+      (Object.keys(style) as (keyof CellStyle)[]).forEach(key => {
+        if (style[key] === undefined) delete style[key];
+      });
+      const next = { ...cell, style };
+      if (Object.keys(style).length === 0) delete next.style;
+      return next;
+    }));
     setData(newData);
   };
 
+  // Borders go on the selection widened over merges, a merged cell's edge is all or nothing
+  const applyBorderPreset = (preset: BorderPreset, border: CellBorder | null) => {
+    const range = getRange();
+    if (!range) return;
+    setData(applyBorders(data, expandRange(data, range), preset, border));
+  };
+
+  const clearStyle = () => {
+    const range = getRange();
+    if (!range) return;
+    const { minR, maxR, minC, maxC } = range;
+
+    const newData = data.map((row, r) => row.map((cell, c) => {
+      if (r < minR || r > maxR || c < minC || c > maxC || !cell.style) return cell;
+      const next = { ...cell };
+      delete next.style;
+      return next;
+    }));
+    setData(newData);
+  };
+
+  // Style of the selection anchor as drawn: bold and text colour fall back to the table's
+  // defaults, so the toolbar and Ctrl+B show and toggle what the table actually shows
+  const getSelectionStyle = (): CellStyle => {
+    const range = getRange();
+    const cell = range && data[range.minR]?.[range.minC];
+    if (!range || !cell) return { textColor: config.textColor };
+    const r = cell.hidden ? cell.ownerRow ?? range.minR : range.minR;
+    const c = cell.hidden ? cell.ownerCol ?? range.minC : range.minC;
+    const style = data[r][c].style ?? {};
+    return {
+      ...style,
+      bold: style.bold ?? (isHeaderCell(config, r, c) ? config.headerBold : config.bodyBold),
+      textColor: style.textColor ?? config.textColor
+    };
+  };
+
   const canMerge = () => {
     const range = getRange();
     if (!range) return false;
@@ -242,10 +627,7 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
 
   const canUnmerge = () => {
     const range = getRange();
-    if (!range) return false;
-    if (range.minR !== range.maxR || range.minC !== range.maxC) return false;
-    const cell = data[range.minR][range.minC];
-    return cell.rowSpan > 1 || cell.colSpan > 1;
+    return range ? hasMergeInRange(data, range) : false;
   };
 
   if (data.length === 0) {
@@ -263,7 +645,7 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
   }
 
   return (
-    <div className="flex flex-col h-full bg-white font-sans">
+    <div className="flex flex-col h-full bg-white font-sans" data-table-history>
         {/* Toolbar */}
         <div className="flex gap-2 mb-4 pb-2 border-b border-gray-100 flex-wrap items-center">
              <button onClick={addRow} className="btn-toolbar">+ Row</button>
@@ -283,9 +665,31 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
             >
                 Unmerge
             </button>
+             <div className="w-px h-5 bg-gray-200 mx-2"></div>
+             <FormatToolbar 
+                style={getSelectionStyle()}
+                disabled={!selection}
+                onApply={applyStyle}
+                onBorders={applyBorderPreset}
+                onClear={clearStyle}
+             />
         </div>
 
-      <div className="overflow-auto flex-1 select-none border border-gray-300 rounded-sm">
+      {config.filters.length > 0 && (
+        <div className="flex items-center justify-between mb-2 px-3 py-1.5 bg-blue-50 border border-blue-100 rounded text-xs text-blue-700">
+          <span>
+            Filter active: {visibleRows.size - headerRowCount} of {data.length - headerRowCount} rows shown in the preview
+          </span>
+          <button onClick={() => clearFilter()} className="hover:underline">Clear filters</button>
+        </div>
+      )}
+      <div 
+        className="overflow-auto flex-1 select-none border border-gray-300 rounded-sm"
+        ref={gridRef}
+        onPaste={handlePaste}
+        onCopy={handleCopy}
+        onCut={handleCut}
+      >
         <table className="min-w-full divide-gray-200 border-collapse">
           <thead>
             <tr>
@@ -295,12 +699,33 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
                {/* Column Headers */}
                {data[0].map((_, colIndex) => (
                    <th key={`head-${colIndex}`} 
-                       className="relative bg-gray-100 border-b border-r border-gray-300 h-8 min-w-[50px] sticky top-0 z-20 group text-center select-none"
+                       className={`relative bg-gray-100 border-b border-r border-gray-300 h-8 min-w-[50px] sticky top-0 z-20 group text-center select-none cursor-grab ${isDragged('col', colIndex) ? 'opacity-50' : ''} ${getDropMarker('col', colIndex, data[0].length)}`}
                        style={{ width: config.customColumnWidths?.[colIndex] || 120 }}
+                       draggable
+                       onDragStart={(e) => handleHeaderDragStart(e, 'col', colIndex)}
+                       onDragOver={(e) => handleHeaderDragOver(e, 'col', colIndex)}
+                       onDrop={handleHeaderDrop}
+                       onDragEnd={() => setDragging(null)}
+                       onContextMenu={(e) => openHeaderMenu(e, 'col', colIndex)}
                    >
                        <span className="text-xs font-semibold text-gray-500 block py-1">
-                           {String.fromCharCode(65 + colIndex)}
+                           {columnName(colIndex)}
+                           {config.columnFormats[colIndex] && (
+                               <span className="ml-1 font-normal text-gray-400" title={`${config.columnFormats[colIndex].type} column`}>
+                                   {TYPE_BADGES[config.columnFormats[colIndex].type]}
+                               </span>
+                           )}
+                           {config.filters.some(f => f.col === colIndex) && <span className="ml-1 text-blue-500" title="Filtered">⏷</span>}
                        </span>
+
+                       {/* Sort / filter / insert menu */}
+                       <button
+                           onClick={(e) => openHeaderMenu(e, 'col', colIndex)}
+                           className="absolute top-1 left-2 hidden group-hover:block text-[10px] text-gray-400 hover:text-blue-500 bg-gray-100 rounded px-1"
+                           title="Sort, filter, format, insert"
+                       >
+                           ▾
+                       </button>
                        
                        {/* Delete Button (Hover) */}
                        <button 
@@ -315,6 +740,7 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
                        <div 
                            className="absolute top-0 right-0 w-1.5 h-full cursor-col-resize hover:bg-blue-400 z-30 transition-colors opacity-0 hover:opacity-100"
                            onMouseDown={(e) => {
+                               e.preventDefault(); // Don't start a header drag
                                const w = config.customColumnWidths?.[colIndex] ?? 120;
                                setResizing({ type: 'col', index: colIndex, startPos: e.clientX, startSize: w });
                            }}
@@ -325,9 +751,17 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
           </thead>
           <tbody>
             {data.map((row, rowIndex) => (
-              <tr key={rowIndex}>
+              <tr key={rowIndex} className={visibleRows.has(rowIndex) ? '' : 'opacity-40'} title={visibleRows.has(rowIndex) ? undefined : 'Hidden by filter'}>
                 {/* Row Header */}
-                <td className="relative w-10 bg-gray-100 border-r border-b border-gray-300 sticky left-0 z-10 text-center group">
+                <td
+                    className={`relative w-10 bg-gray-100 border-r border-b border-gray-300 sticky left-0 z-10 text-center group cursor-grab ${isDragged('row', rowIndex) ? 'opacity-50' : ''} ${getDropMarker('row', rowIndex, data.length)}`}
+                    draggable
+                    onDragStart={(e) => handleHeaderDragStart(e, 'row', rowIndex)}
+                    onDragOver={(e) => handleHeaderDragOver(e, 'row', rowIndex)}
+                    onDrop={handleHeaderDrop}
+                    onDragEnd={() => setDragging(null)}
+                    onContextMenu={(e) => openHeaderMenu(e, 'row', rowIndex)}
+                >
                     <span className="text-xs font-semibold text-gray-500">{rowIndex + 1}</span>
                     
                      {/* Delete Button (Hover) */}
@@ -343,6 +777,7 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
                     <div 
                         className="absolute bottom-0 left-0 w-full h-1.5 cursor-row-resize hover:bg-blue-400 z-30 transition-colors opacity-0 hover:opacity-100"
                         onMouseDown={(e) => {
+                            e.preventDefault(); // Don't start a header drag
                             const h = config.customRowHeights?.[rowIndex] ?? 50;
                             setResizing({ type: 'row', index: rowIndex, startPos: e.clientY, startSize: h });
                         }}
@@ -353,6 +788,8 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
                 {row.map((cell, colIndex) => {
                   if (cell.hidden) return null;
                   const selected = isSelected(rowIndex, colIndex);
+                  const isEditing = editing?.r === rowIndex && editing?.c === colIndex;
+                  const isHeader = isHeaderCell(config, rowIndex, colIndex);
                   
                   return (
                     <td 
@@ -361,7 +798,7 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
                         rowSpan={cell.rowSpan}
                         className={`
                             relative p-0 border-r border-b border-gray-200 
-                            ${selected ? 'bg-blue-50 ring-2 ring-inset ring-blue-500 z-0' : 'bg-white hover:bg-gray-50'}
+                            ${isEditing ? 'bg-white ring-2 ring-inset ring-green-500 z-0' : selected ? 'bg-blue-50 ring-2 ring-inset ring-blue-500 z-0' : isHeader ? 'bg-slate-50 hover:bg-slate-100' : 'bg-white hover:bg-gray-50'}
                         `}
                         onMouseDown={(e) => {
                             if (e.button === 0) handleMouseDown(rowIndex, colIndex);
@@ -370,17 +807,35 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
                     >
                       <div className="relative w-full h-full">
                          <textarea
+                            data-cell={`${rowIndex}:${colIndex}`}
                             value={cell.value}
+                            readOnly={!isEditing}
                             onChange={(e) => handleCellChange(rowIndex, colIndex, e.target.value)}
+                            onKeyDown={(e) => handleCellKeyDown(e, rowIndex, colIndex)}
+                            onDoubleClick={() => !isEditing && startEditing(rowIndex, colIndex, false)}
+                            onBlur={() => isEditing && setEditing(null)}
                             className={`
                                 block w-full bg-transparent border-none focus:outline-none resize-none px-2 py-1 text-sm text-gray-800 leading-tight
-                                ${rowIndex === 0 ? 'font-semibold' : ''}
+                                ${isEditing ? 'cursor-text' : 'caret-transparent cursor-cell'}
+                                ${(cell.style?.bold ?? (isHeader ? config.headerBold : config.bodyBold)) ? 'font-semibold' : ''}
+                                ${cell.style?.italic ? 'italic' : ''}
                             `}
                             style={{
                                 height: `${config.customRowHeights?.[rowIndex] ?? 50}px`,
-                                minHeight: '30px'
+                                minHeight: '30px',
+                                color: cell.style?.textColor,
+                                textAlign: cell.style?.align,
+                                backgroundColor: cell.style?.fillColor ? `${cell.style.fillColor}33` : undefined
                             }}
                           />
+                          {isFormula(cell.value) && !isEditing && (
+                            <span
+                              className="absolute bottom-0.5 right-1 max-w-full truncate rounded bg-emerald-50 px-1 text-[10px] leading-4 text-emerald-700 pointer-events-none"
+                              title="Formula result"
+                            >
+                              = {formulaResults.get(cell.id)}
+                            </span>
+                          )}
                       </div>
                     </td>
                   );
@@ -390,6 +845,47 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, setData, config, setConfi
           </tbody>
         </table>
       </div>
+      {headerMenu && (
+        <div
+          className="fixed z-50 bg-white border border-gray-200 rounded shadow-lg py-1 text-xs text-gray-700 min-w-[180px]"
+          style={{ left: headerMenu.x, top: headerMenu.y }}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          {headerMenu.type === 'row' ? (
+            <>
+              <button className="block w-full text-left px-3 py-1.5 hover:bg-gray-100" onClick={() => insertLine('row', headerMenu.index)}>Insert row above</button>
+              <button className="block w-full text-left px-3 py-1.5 hover:bg-gray-100" onClick={() => insertLine('row', headerMenu.index + 1)}>Insert row below</button>
+              <div className="my-1 border-t border-gray-100" />
+              <button className="block w-full text-left px-3 py-1.5 hover:bg-gray-100 text-red-600" onClick={() => { removeRow(headerMenu.index); setHeaderMenu(null); }}>Delete row</button>
+            </>
+          ) : (
+            <>
+              <button className="block w-full text-left px-3 py-1.5 hover:bg-gray-100" onClick={() => insertLine('col', headerMenu.index)}>Insert column left</button>
+              <button className="block w-full text-left px-3 py-1.5 hover:bg-gray-100" onClick={() => insertLine('col', headerMenu.index + 1)}>Insert column right</button>
+              <div className="my-1 border-t border-gray-100" />
+              <button className="block w-full text-left px-3 py-1.5 hover:bg-gray-100 text-red-600" onClick={() => { removeCol(headerMenu.index); setHeaderMenu(null); }}>Delete column</button>
+              <div className="my-1 border-t border-gray-100" />
+              <SortFilterMenu
+                col={headerMenu.index}
+                filter={config.filters.find(f => f.col === headerMenu.index)}
+                sortMode={sortMode}
+                onSortModeChange={setSortMode}
+                onSort={(order) => sortByColumn(headerMenu.index, order)}
+                onApplyFilter={applyFilter}
+                onClearFilter={() => clearFilter(headerMenu.index)}
+              />
+              <div className="my-1 border-t border-gray-100" />
+              <ColumnFormatMenu
+                format={config.columnFormats[headerMenu.index]}
+                onChange={(format) => setColumnFormat(headerMenu.index, format)}
+              />
+            </>
+          )}
+        </div>
+      )}
+      <p className="mt-2 text-[11px] text-gray-400">
+        Arrows / Tab / Enter to move · Shift+arrows to select · Type or F2 to edit · Shift+Enter for a new line · Esc to cancel · Ctrl+B / Ctrl+I for **bold** / *italic* text (also ~~strike~~, ==highlight==, {'{red|color}'}, [link](https://…)) · Start with = for a formula (=SUM(B2:B5), =A2*1.1) · Drag or right-click headers to move / insert
+      </p>
       <style>{`
         .btn-toolbar {
             @apply px-3 py-1 text-xs font-medium bg-gray-50 border border-gray-200 text-gray-700 rounded hover:bg-white hover:shadow-sm transition-all;
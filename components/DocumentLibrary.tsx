@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { DocumentMeta } from '../types';
+
+interface DocumentLibraryProps {
+  documents: DocumentMeta[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ documents, activeId, onSelect, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (doc: DocumentMeta) => {
+    setEditingId(doc.id);
+    setDraftName(doc.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-semibold text-gray-700">📚 我的表格</label>
+        <button
+          onClick={onCreate}
+          className="py-1 px-2 rounded text-xs font-medium text-blue-600 border border-blue-200 hover:bg-blue-50 transition-all active:scale-95"
+        >
+          + 新建
+        </button>
+      </div>
+
+      <ul className="space-y-1 max-h-56 overflow-y-auto">
+        {documents.map(doc => {
+          const active = doc.id === activeId;
+          return (
+            <li
+              key={doc.id}
+              onClick={() => onSelect(doc.id)}
+              className={`group flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer transition-colors
+                ${active ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-gray-50'}`}
+            >
+              <div className="flex-1 min-w-0">
+                {editingId === doc.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full text-sm border border-blue-300 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <div
+                    className={`text-sm truncate ${active ? 'text-blue-700 font-medium' : 'text-gray-700'}`}
+                    onDoubleClick={() => startRename(doc)}
+                    title={doc.name}
+                  >
+                    {doc.name}
+                  </div>
+                )}
+                <div className="text-[10px] text-gray-400">
+                  更新于 {formatTime(doc.updatedAt)} · 创建于 {formatTime(doc.createdAt)}
+                </div>
+              </div>
+
+              <div className="hidden group-hover:flex gap-1 flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                <button onClick={() => startRename(doc)} className="text-xs text-gray-400 hover:text-blue-600 px-0.5" title="重命名">✎</button>
+                <button onClick={() => onDuplicate(doc.id)} className="text-xs text-gray-400 hover:text-blue-600 px-0.5" title="复制">⧉</button>
+                <button onClick={() => onDelete(doc.id)} className="text-xs text-gray-400 hover:text-red-500 px-0.5" title="删除">✕</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DocumentLibrary;
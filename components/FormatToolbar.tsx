@@ -0,0 +1,127 @@
+import React from 'react';
+import { CellBorder, CellStyle, FillStyle, TextAlign } from '../types';
+import { BorderPreset } from '../utils/borders';
+import BorderPicker from './BorderPicker';
+
+interface FormatToolbarProps {
+  style: CellStyle; // Style of the selection anchor as drawn, used to show the current state
+  disabled: boolean;
+  onApply: (patch: Partial<CellStyle>) => void;
+  onBorders: (preset: BorderPreset, border: CellBorder | null) => void;
+  onClear: () => void;
+}
+
+const FONT_SIZES = [12, 14, 16, 18, 20, 24, 28, 32];
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: '⇤' },
+  { value: 'center', label: '↔' },
+  { value: 'right', label: '⇥' }
+];
+
+const CELL_FILL_OPTIONS: { value: FillStyle; label: string }[] = [
+  { value: 'hachure', label: '斜线' },
+  { value: 'cross-hatch', label: '交叉线' },
+  { value: 'zigzag', label: '锯齿线' },
+  { value: 'dots', label: '圆点' },
+  { value: 'solid', label: '实心' }
+];
+
+const FormatToolbar: React.FC<FormatToolbarProps> = ({ style, disabled, onApply, onBorders, onClear }) => {
+  const toggleClass = (active: boolean) =>
+    `btn-toolbar ${disabled ? 'opacity-50 cursor-not-allowed' : ''} ${active ? 'bg-blue-100 text-blue-700 border-blue-300' : ''}`;
+
+  return (
+    <div className="flex gap-1 items-center flex-wrap">
+      <button
+        onClick={() => onApply({ bold: !style.bold })}
+        disabled={disabled}
+        className={`${toggleClass(!!style.bold)} font-bold`}
+        title="加粗"
+      >
+        B
+      </button>
+      <button
+        onClick={() => onApply({ italic: !style.italic })}
+        disabled={disabled}
+        className={`${toggleClass(!!style.italic)} italic`}
+        title="斜体"
+      >
+        I
+      </button>
+
+      {ALIGN_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onApply({ align: option.value })}
+          disabled={disabled}
+          className={toggleClass(style.align === option.value)}
+          title={`对齐: ${option.value}`}
+        >
+          {option.label}
+        </button>
+      ))}
+
+      <select
+        value={style.fontSize ?? ''}
+        onChange={(e) => onApply({ fontSize: e.target.value ? parseInt(e.target.value) : undefined })}
+        disabled={disabled}
+        className="text-xs border border-gray-200 rounded px-1 py-1 bg-gray-50"
+        title="字号"
+      >
+        <option value="">字号</option>
+        {FONT_SIZES.map(size => (
+          <option key={size} value={size}>{size}px</option>
+        ))}
+      </select>
+
+      <label className="flex items-center gap-1 text-xs text-gray-500" title="文字颜色">
+        A
+        <input
+          type="color"
+          value={style.textColor}
+          onChange={(e) => onApply({ textColor: e.target.value })}
+          disabled={disabled}
+          className="w-5 h-5 p-0 border-0 rounded cursor-pointer"
+        />
+      </label>
+
+      <label className="flex items-center gap-1 text-xs text-gray-500" title="背景填充">
+        ▨
+        <input
+          type="color"
+          value={style.fillColor ?? '#fde68a'}
+          onChange={(e) => onApply({ fillColor: e.target.value })}
+          disabled={disabled}
+          className="w-5 h-5 p-0 border-0 rounded cursor-pointer"
+        />
+      </label>
+      {style.fillColor && (
+        <select
+          value={style.fillStyle ?? 'hachure'}
+          onChange={(e) => onApply({ fillStyle: e.target.value as FillStyle })}
+          disabled={disabled}
+          className="text-xs border border-gray-200 rounded px-1 py-1 bg-gray-50"
+          title="填充样式"
+        >
+          {CELL_FILL_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )}
+
+      <BorderPicker disabled={disabled} onApply={onBorders} />
+
+      <button
+        onClick={onClear}
+        disabled={disabled}
+        className={`btn-toolbar ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+        title="清除格式"
+      >
+        Clear
+      </button>
+    </div>
+  );
+};
+
+export default FormatToolbar;
@@ -1,51 +1,116 @@
-import React, { useMemo, useRef } from 'react';
-import { TableData, TableConfig } from '../types';
-import { getRoughPath } from '../utils/sketchUtils';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TableData, TableConfig, TableCell, BorderLine, FillStyle, Annotation, Point } from '../types';
+import { getRoughPath, Rng, seededRng } from '../utils/sketchUtils';
+import { getFillShapes, rectPolygon } from '../utils/fillUtils';
+import { downloadBlob } from '../utils/downloadUtils';
+import { FontEmbedMode, serializeSvg } from '../utils/svgExport';
+import { exportPdf, PdfExportOptions } from '../utils/pdfExport';
+import { copyRasterToClipboard, DEFAULT_RASTER_OPTIONS, getRasterFilename, RasterExportOptions, renderRaster } from '../utils/rasterExport';
+import { clearMeasureCache, FontSpec, measureText, wrapText } from '../utils/textMeasure';
+import { applyFilters } from '../utils/sortFilter';
+import { isHeaderCell } from '../utils/tableModel';
+import { withComputedValues } from '../utils/formulaUtils';
+import { formatTable, getBooleanMark, getDefaultAlign } from '../utils/valueFormat';
+import { getBackgroundShapes, getCanvasPadding } from '../utils/canvasBackground';
+import { getEdgeBorder, isGridLineDrawn } from '../utils/borders';
+import {
+  ANNOTATION_MARGIN, AnnotationTool, Box, createAnnotation, DEFAULT_ANNOTATION_COLOR, getAnnotationShapes, NOTE_FONT_SIZE, NOTE_PADDING, unionBox
+} from '../utils/annotations';
+import { getRunFont, hasMarkup, measureRichLines, measureRuns, parseRichText, RichRun, wrapRichText } from '../utils/richText';
+import { AnimationOptions, animateSvg, DEFAULT_ANIMATION_OPTIONS, drawAttrs, getFrameSvg, getFrameTimes } from '../utils/drawAnimation';
+import { createZip, ZipEntry } from '../utils/zipUtils';
+import AnimationPanel from './AnimationPanel';
+import AnnotationToolbar from './AnnotationToolbar';
+import PdfExportPanel from './PdfExportPanel';
+import RasterExportPanel from './RasterExportPanel';
 
 interface HandDrawnTableProps {
   data: TableData;
   config: TableConfig;
+  onAnnotationsChange?: (annotations: Annotation[]) => void; // Without it the annotations are only drawn
 }
 
-// Helper for rough text wrapping measurement
-const wrapText = (text: string, maxWidth: number, fontSize: number): string[] => {
-  if (!text) return [];
-  
-  // Split by explicit newlines first to respect user formatting
-  const paragraphs = text.split('\n');
-  const finalLines: string[] = [];
+// Resolve the typography of a cell: explicit cell style wins over the header/body defaults
+const getCellFont = (cell: TableCell, isHeader: boolean, config: TableConfig): FontSpec => ({
+  fontSize: cell.style?.fontSize ?? (isHeader ? config.headerFontSize : config.bodyFontSize),
+  bold: cell.style?.bold ?? (isHeader ? config.headerBold : config.bodyBold),
+  italic: cell.style?.italic ?? false
+});
+
+// Hand-drawn check mark (true) or cross (false) centred on cx/cy, two strokes each
+const getMarkPath = (mark: boolean, cx: number, cy: number, size: number, roughness: number, bowing: number, rng: Rng) => {
+  const s = size / 2;
+  const strokes = mark
+    ? [[cx - s * 0.9, cy, cx - s * 0.2, cy + s * 0.7], [cx - s * 0.2, cy + s * 0.7, cx + s, cy - s * 0.9]]
+    : [[cx - s * 0.8, cy - s * 0.8, cx + s * 0.8, cy + s * 0.8], [cx + s * 0.8, cy - s * 0.8, cx - s * 0.8, cy + s * 0.8]];
+  return strokes.map(([x1, y1, x2, y2]) => getRoughPath(x1, y1, x2, y2, roughness, bowing, rng)).join(' ');
+};
 
-  // Rough estimation: average char width ~ 0.55 * fontSize for Patrick Hand
-  const charWidth = fontSize * 0.55; 
+const LINK_COLOR = '#2563eb'; // Blue 600
+const HIGHLIGHT_COLOR = '#fde047'; // Yellow 300
 
-  paragraphs.forEach(paragraph => {
-    // If paragraph is empty (double newline), add a spacer line
-    if (!paragraph) {
-        finalLines.push(' ');
-        return;
-    }
+// Lines of a cell value as drawn. Values without inline markup take the plain text path (one
+// <text> of <tspan> lines); marked-up values are laid out run by run.
+const wrapCellValue = (value: string, maxWidth: number, font: FontSpec): { plain: string[] } | { rich: RichRun[][] } => {
+  const runs = parseRichText(value);
+  if (hasMarkup(runs)) return { rich: wrapRichText(runs, maxWidth, font) };
+  return { plain: wrapText(runs.map(run => run.text).join(''), maxWidth, font) };
+};
 
-    const words = paragraph.split(' ');
-    let currentLine = words[0];
-
-    for (let i = 1; i < words.length; i++) {
-        const word = words[i];
-        const width = (currentLine.length + 1 + word.length) * charWidth;
-        if (width < maxWidth) {
-        currentLine += ' ' + word;
-        } else {
-        finalLines.push(currentLine);
-        currentLine = word;
-        }
-    }
-    finalLines.push(currentLine);
-  });
-  
-  return finalLines;
+// Index of the band of `positions` containing v, clamped to the first / last band
+const findBand = (positions: number[], v: number): number => {
+  let i = 0;
+  while (i < positions.length - 2 && v >= positions[i + 1]) i++;
+  return i;
 };
 
-const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
+const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data: sourceData, config: sourceConfig, onAnnotationsChange }) => {
+  // Draw formula results instead of formulas, and the table as filtered: rows filtered out
+  // are left out, row heights follow their rows. Formulas are evaluated first, they may
+  // reference rows the filter hides. Typed columns are formatted last so filters see raw values.
+  const { data, config } = useMemo(() => {
+    const computed = withComputedValues(sourceData);
+    const filtered = applyFilters(computed, sourceConfig.customRowHeights, sourceConfig.filters, sourceConfig.headerRows);
+    const formatted = formatTable(filtered.data, sourceConfig.columnFormats, sourceConfig.headerRows, sourceConfig.headerColumns);
+    if (filtered.data === computed) return { data: formatted, config: sourceConfig };
+    return { data: formatted, config: { ...sourceConfig, customRowHeights: filtered.rowHeights } };
+  }, [sourceData, sourceConfig]);
   const svgRef = useRef<SVGSVGElement>(null);
+  const [fontMode, setFontMode] = useState<FontEmbedMode>('embed');
+  const [exporting, setExporting] = useState(false);
+  const [exportPanel, setExportPanel] = useState<'image' | 'pdf' | 'animation' | null>(null);
+  const [rasterOptions, setRasterOptions] = useState<RasterExportOptions>(DEFAULT_RASTER_OPTIONS);
+  const [animationOptions, setAnimationOptions] = useState<AnimationOptions>(DEFAULT_ANIMATION_OPTIONS);
+  // Object URL of the animated SVG playing over the table in the preview
+  const [playback, setPlayback] = useState<string | null>(null);
+  // Bumped once the hand font has loaded so layout is re-measured with real metrics
+  const [fontVersion, setFontVersion] = useState(0);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool | null>(null);
+  const [annotationColor, setAnnotationColor] = useState(DEFAULT_ANNOTATION_COLOR);
+  // Annotation being dragged out, or a note being moved; only saved when the pointer is released
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const noteDragRef = useRef<{ start: Point; offset: Point } | null>(null);
+
+  useEffect(() => {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    let cancelled = false;
+    document.fonts.ready.then(() => {
+      if (cancelled) return;
+      clearMeasureCache();
+      setFontVersion(v => v + 1);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Playback ends a moment after the table is finished
+  useEffect(() => {
+    if (!playback) return;
+    const timer = setTimeout(() => setPlayback(null), animationOptions.duration * 1000 + 1000);
+    return () => {
+      clearTimeout(timer);
+      URL.revokeObjectURL(playback);
+    };
+  }, [playback, animationOptions.duration]);
   
   const baseCellWidth = 120;
   const baseLineHeight = 24; // Height per line of text
@@ -58,13 +123,13 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
     // Auto widths based on content length (single line assumption for base width)
     const autoWidths = new Array(data[0].length).fill(baseCellWidth);
     
-    data.forEach(row => {
+    data.forEach((row, rowIndex) => {
       row.forEach((cell, i) => {
         if (cell.colSpan === 1 && !cell.hidden) {
-             // Heuristic: Ensure enough width for at least reasonably long words
-             // We split by newline to find the widest single segment
-             const maxSegmentLen = Math.max(...cell.value.split('\n').map(s => s.length));
-             const estimated = Math.min(250, Math.max(baseCellWidth, (maxSegmentLen * 9)));
+             // Fit the widest explicit line, capped so long text wraps instead of stretching the table
+             const font = getCellFont(cell, isHeaderCell(config, rowIndex, i), config);
+             const maxLineWidth = measureRichLines(parseRichText(cell.value), font);
+             const estimated = Math.min(250, Math.max(baseCellWidth, maxLineWidth + basePadding * 2));
              autoWidths[i] = Math.max(autoWidths[i], estimated);
         }
       });
@@ -75,7 +140,7 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
         const base = custom !== undefined ? custom : w;
         return base * (config.widthScale || 1);
     });
-  }, [data, config.customColumnWidths, config.widthScale]);
+  }, [data, config, basePadding, fontVersion]);
 
   // Calculate Row Heights considering text wrapping
   const rowHeights = useMemo(() => {
@@ -86,11 +151,11 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
         }
 
         // Otherwise calculate based on wrapped text content of 1-span cells
-        let maxLines = 1;
-        const fontSize = rowIndex === 0 ? 20 : 16;
+        let maxHeight = 0;
 
         row.forEach((cell, colIndex) => {
             if (cell.hidden || cell.rowSpan > 1) return; // Ignore multi-row cells for auto-height of this single row
+            const font = getCellFont(cell, isHeaderCell(config, rowIndex, colIndex), config);
             
             // Calculate effective width for this cell
             let cellWidth = colWidths[colIndex];
@@ -102,14 +167,15 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
             }
             // Subtract padding
             const contentWidth = Math.max(0, cellWidth - (basePadding * 2));
-            const lines = wrapText(cell.value, contentWidth, fontSize);
-            maxLines = Math.max(maxLines, lines.length);
+            const wrapped = wrapCellValue(cell.value, contentWidth, font);
+            const lineCount = 'rich' in wrapped ? wrapped.rich.length : wrapped.plain.length;
+            maxHeight = Math.max(maxHeight, Math.max(1, lineCount) * (font.fontSize * 1.4));
         });
 
-        const calculatedHeight = (maxLines * (fontSize * 1.4)) + (basePadding * 2);
+        const calculatedHeight = maxHeight + (basePadding * 2);
         return Math.max(50, calculatedHeight);
     });
-  }, [data, colWidths, config.customRowHeights, basePadding]);
+  }, [data, colWidths, config, basePadding]);
 
   // Pre-calculate X and Y positions
   const xPositions = useMemo(() => {
@@ -127,6 +193,13 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
   const totalWidth = xPositions[xPositions.length - 1];
   const totalHeight = yPositions[yPositions.length - 1];
 
+  // The SVG pads the table: a little so rough lines aren't clipped, more when a canvas shows
+  // around it or annotations reach past the table's edge
+  const canvasPadding = Math.max(getCanvasPadding(config.background), config.annotations.length > 0 ? ANNOTATION_MARGIN : 0);
+  const hasCanvas = config.background !== 'none';
+  const svgWidth = totalWidth + canvasPadding * 2;
+  const svgHeight = totalHeight + canvasPadding * 2;
+
   // Helper to find effective cell at coords
   const getCellAt = (r: number, c: number) => {
       if (r < 0 || r >= data.length || c < 0 || c >= data[0].length) return null;
@@ -135,7 +208,10 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
       // Resolve owner
       const ownerR = cell.ownerRow ?? r;
       const ownerC = cell.ownerCol ?? c;
-      return { ...data[ownerR][ownerC], r: ownerR, c: ownerC };
+      const owner = data[ownerR]?.[ownerC];
+      // Dangling owner pointers can't come from the table model, but don't draw garbage if they do
+      if (!owner) return { ...cell, r, c };
+      return { ...owner, r: ownerR, c: ownerC };
   };
 
   // Generate paths for grid lines
@@ -144,61 +220,89 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
     const rowCount = data.length;
     const colCount = data[0]?.length || 0;
 
+    // One rough segment, drawn twice for a sketchy look. Thick lines double the width, double
+    // lines are two strokes set apart across the line, dashes and dots come from a dash array.
+    // Row and column place the segment in the drawing animation.
+    const pushSegment = (
+      key: string, x1: number, y1: number, x2: number, y2: number, rng: Rng, line: BorderLine, color: string, row: number, col: number
+    ) => {
+      const width = line === 'thick' ? config.strokeWidth * 2 : config.strokeWidth;
+      const gap = config.strokeWidth + 1.5;
+      const offsets = line === 'double' ? [-gap, gap] : [0];
+      const dashArray = line === 'dashed' ? `${width * 4} ${width * 3}` : line === 'dotted' ? `0 ${width * 2.5}` : undefined;
+      const horizontal = y1 === y2;
+      // The animation reveals strokes along their dash array, so dashed lines fade in instead
+      const draw = drawAttrs('grid', dashArray ? 'fade' : 'stroke', row, col);
+      offsets.forEach((offset, i) => {
+        const dx = horizontal ? 0 : offset;
+        const dy = horizontal ? offset : 0;
+        const p1 = getRoughPath(x1 + dx, y1 + dy, x2 + dx, y2 + dy, config.roughness, config.bowing, rng);
+        lines.push(
+          <path
+            key={`${key}-${i}`}
+            d={p1}
+            stroke={color}
+            strokeWidth={width}
+            strokeDasharray={dashArray}
+            strokeLinecap={dashArray ? 'round' : undefined}
+            fill="none"
+            {...draw}
+          />
+        );
+        // A second pass would smear dashes and dots
+        if (config.roughness > 0.5 && !dashArray) {
+          const p2 = getRoughPath(x1 + dx, y1 + dy, x2 + dx, y2 + dy, config.roughness, config.bowing, rng);
+          lines.push(<path key={`${key}-${i}-d`} d={p2} stroke={color} strokeWidth={width * 0.5} fill="none" opacity="0.6" {...draw} />);
+        }
+      });
+    };
+
+    // A cell border override decides how its segment looks; otherwise the grid line layout
+    // does. A styled header separator is drawn even where the layout leaves inner lines out.
+    const separatorLine: BorderLine = config.headerSeparator === 'single' ? 'solid' : config.headerSeparator;
+    const drawSegment = (
+      key: string, x1: number, y1: number, x2: number, y2: number, rng: Rng,
+      before: TableCell | null, after: TableCell | null, outer: boolean, separator: boolean, row: number, col: number
+    ) => {
+      const horizontal = y1 === y2;
+      const border = getEdgeBorder(before, after, horizontal);
+      if (border) {
+        if (border.line !== 'hidden') pushSegment(key, x1, y1, x2, y2, rng, border.line, border.color ?? config.stroke, row, col);
+        return;
+      }
+      const styledSeparator = separator && separatorLine !== 'solid';
+      if (!isGridLineDrawn(config.gridLines, horizontal, outer) && !styledSeparator) return;
+      pushSegment(key, x1, y1, x2, y2, rng, separator ? separatorLine : 'solid', config.stroke, row, col);
+    };
+
     // Horizontal segments
     for (let r = 0; r <= rowCount; r++) {
         for (let c = 0; c < colCount; c++) {
-            let shouldDraw = false;
-            if (r === 0 || r === rowCount) {
-                shouldDraw = true;
-            } else {
-                const cellAbove = getCellAt(r - 1, c);
-                if (cellAbove && (cellAbove.r + cellAbove.rowSpan) > r) {
-                    shouldDraw = false; // Inside a merge
-                } else {
-                    shouldDraw = true;
-                }
-            }
-
-            if (shouldDraw) {
-                const x1 = xPositions[c];
-                const x2 = xPositions[c + 1];
-                const y = yPositions[r];
-                const p1 = getRoughPath(x1, y, x2, y, config.roughness, config.bowing);
-                lines.push(<path key={`h-${r}-${c}`} d={p1} stroke={config.stroke} strokeWidth={config.strokeWidth} fill="none" />);
-                if (config.roughness > 0.5) {
-                    const p2 = getRoughPath(x1, y, x2, y, config.roughness, config.bowing);
-                    lines.push(<path key={`h-${r}-${c}-d`} d={p2} stroke={config.stroke} strokeWidth={config.strokeWidth * 0.5} fill="none" opacity="0.6" />);
-                }
-            }
+            const cellAbove = r > 0 ? getCellAt(r - 1, c) : null;
+            const cellBelow = r < rowCount ? getCellAt(r, c) : null;
+            if (cellAbove && (cellAbove.r + cellAbove.rowSpan) > r) continue; // Inside a merge
+
+            const separator = r === config.headerRows && r > 0 && r < rowCount;
+            drawSegment(
+                `h-${r}-${c}`, xPositions[c], yPositions[r], xPositions[c + 1], yPositions[r], seededRng(config.seed, 'h', r, c),
+                cellAbove, cellBelow, r === 0 || r === rowCount, separator, r, c
+            );
         }
     }
 
     // Vertical segments
     for (let c = 0; c <= colCount; c++) {
         for (let r = 0; r < rowCount; r++) {
-            let shouldDraw = false;
-            if (c === 0 || c === colCount) {
-                shouldDraw = true;
-            } else {
-                const cellLeft = getCellAt(r, c - 1);
-                if (cellLeft && (cellLeft.c + cellLeft.colSpan) > c) {
-                    shouldDraw = false;
-                } else {
-                    shouldDraw = true;
-                }
-            }
-
-            if (shouldDraw) {
-                const x = xPositions[c];
-                const y1 = yPositions[r];
-                const y2 = yPositions[r + 1];
-                const p1 = getRoughPath(x, y1, x, y2, config.roughness, config.bowing);
-                lines.push(<path key={`v-${c}-${r}`} d={p1} stroke={config.stroke} strokeWidth={config.strokeWidth} fill="none" />);
-                 if (config.roughness > 0.5) {
-                    const p2 = getRoughPath(x, y1, x, y2, config.roughness, config.bowing);
-                    lines.push(<path key={`v-${c}-${r}-d`} d={p2} stroke={config.stroke} strokeWidth={config.strokeWidth * 0.5} fill="none" opacity="0.6" />);
-                }
-            }
+            const cellLeft = c > 0 ? getCellAt(r, c - 1) : null;
+            const cellRight = c < colCount ? getCellAt(r, c) : null;
+            if (cellLeft && (cellLeft.c + cellLeft.colSpan) > c) continue; // Inside a merge
+
+            // The header column's separator stops at the header rows, which sit above it
+            const separator = c === config.headerColumns && c > 0 && c < colCount && r >= config.headerRows;
+            drawSegment(
+                `v-${c}-${r}`, xPositions[c], yPositions[r], xPositions[c], yPositions[r + 1], seededRng(config.seed, 'v', c, r),
+                cellLeft, cellRight, c === 0 || c === colCount, separator, r, c
+            );
         }
     }
     
@@ -218,8 +322,33 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
         const w = xPositions[colIndex + cell.colSpan] - x;
         const h = yPositions[rowIndex + cell.rowSpan] - y;
         
-        const fontSize = rowIndex === 0 ? 20 : 16;
-        const lines = wrapText(cell.value, w - (basePadding * 2), fontSize);
+        const isHeader = isHeaderCell(config, rowIndex, colIndex);
+        const font = getCellFont(cell, isHeader, config);
+        const { fontSize, bold, italic } = font;
+        const format = isHeader ? undefined : config.columnFormats[colIndex];
+        const align = cell.style?.align ?? getDefaultAlign(format);
+
+        const mark = getBooleanMark(cell.value, format);
+        if (mark !== null) {
+          const size = fontSize * 0.9;
+          const cx = align === 'left' ? x + basePadding + size / 2 : align === 'right' ? x + w - basePadding - size / 2 : x + w / 2;
+          const rng = seededRng(config.seed, 'mark', cell.id);
+          elements.push(
+            <path
+              key={cell.id}
+              d={getMarkPath(mark, cx, y + h / 2, size, config.roughness, config.bowing, rng)}
+              stroke={cell.style?.textColor ?? config.textColor}
+              strokeWidth={bold ? 3 : 2}
+              strokeLinecap="round"
+              fill="none"
+              {...drawAttrs('content', 'stroke', rowIndex, colIndex)}
+            />
+          );
+          return;
+        }
+
+        const wrapped = wrapCellValue(cell.value, w - (basePadding * 2), font);
+        const lines = 'rich' in wrapped ? wrapped.rich : wrapped.plain;
         const lineHeight = fontSize * 1.4;
         const totalTextHeight = lines.length * lineHeight;
 
@@ -228,30 +357,114 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
         // We'll apply individual roughness to each line for a more organic look
         const textRoughness = config.roughness * 2;
         
+        // Jitter is keyed by cell id so it stays put while the cell is edited
+        const rng = seededRng(config.seed, 'text', cell.id);
+
         // Base random jitter for the whole block
-        const blockTx = (Math.random() - 0.5) * textRoughness * 0.5;
-        const blockTy = (Math.random() - 0.5) * textRoughness * 0.5;
+        const blockTx = (rng() - 0.5) * textRoughness * 0.5;
+        const blockTy = (rng() - 0.5) * textRoughness * 0.5;
+
+        const anchorX = align === 'left' ? x + basePadding : align === 'right' ? x + w - basePadding : x + w / 2;
+        const textAnchor = align === 'left' ? 'start' : align === 'right' ? 'end' : 'middle';
+        const textColor = cell.style?.textColor ?? config.textColor;
+
+        if ('rich' in wrapped) {
+          // One <text> per run, placed from measured widths. Highlights go under the text,
+          // strikes and link underlines over it, all as rough strokes.
+          const underlay: React.ReactElement[] = [];
+          const overlay: React.ReactElement[] = [];
+          const markWidth = Math.max(1.2, fontSize / 14);
+          wrapped.rich.forEach((line, i) => {
+            const lineTx = (rng() - 0.5) * textRoughness;
+            const baseline = startY + blockTy + i * lineHeight;
+            const lineWidth = measureRuns(line, font);
+            let cursor = (align === 'left' ? anchorX : align === 'right' ? anchorX - lineWidth : anchorX - lineWidth / 2) + blockTx + lineTx;
+
+            line.forEach((run, j) => {
+              const runFont = getRunFont(run, font);
+              const width = measureText(run.text, runFont);
+              const color = run.color ?? (run.link ? LINK_COLOR : textColor);
+              const key = `${i}-${j}`;
+              // Spaces at the ends of a run would be collapsed by the SVG, so they become an offset
+              const text = run.text.trim();
+              const lead = measureText(run.text.slice(0, run.text.length - run.text.trimStart().length), runFont);
+              const textWidth = measureText(text, runFont);
+              const start = cursor + lead;
+              cursor += width;
+              if (!text) return;
+
+              if (run.highlight) {
+                const hy = baseline - fontSize * 0.3;
+                underlay.push(
+                  <path
+                    key={key}
+                    d={getRoughPath(start - 2, hy + (rng() - 0.5) * 2, start + textWidth + 2, hy + (rng() - 0.5) * 2, config.roughness * 0.5, config.bowing * 0.3, rng)}
+                    stroke={HIGHLIGHT_COLOR}
+                    strokeWidth={fontSize * 0.95}
+                    strokeLinecap="round"
+                    opacity="0.5"
+                    fill="none"
+                  />
+                );
+              }
+              const marks: string[] = [];
+              if (run.strike) {
+                const sy = baseline - fontSize * 0.28;
+                marks.push(getRoughPath(start - 1, sy + 1, start + textWidth + 1, sy - 1, config.roughness * 0.5, config.bowing * 0.5, rng));
+              }
+              if (run.link) {
+                const uy = baseline + fontSize * 0.15;
+                marks.push(getRoughPath(start, uy, start + textWidth, uy, config.roughness * 0.5, config.bowing * 0.5, rng));
+              }
+              const content = (
+                <>
+                  <text
+                    x={start}
+                    y={baseline}
+                    fill={color}
+                    style={{
+                      fontSize: `${fontSize}px`,
+                      fontFamily: '"Patrick Hand", cursive',
+                      fontWeight: runFont.bold ? 'bold' : 'normal',
+                      fontStyle: runFont.italic ? 'italic' : 'normal'
+                    }}
+                  >
+                    {text}
+                  </text>
+                  {marks.length > 0 && <path d={marks.join(' ')} stroke={color} strokeWidth={markWidth} strokeLinecap="round" fill="none" />}
+                </>
+              );
+              overlay.push(run.link
+                ? <a key={key} href={run.link} target="_blank" rel="noopener noreferrer">{content}</a>
+                : <React.Fragment key={key}>{content}</React.Fragment>);
+            });
+          });
+          elements.push(<g key={cell.id} {...drawAttrs('content', 'fade', rowIndex, colIndex)}>{underlay}{overlay}</g>);
+          return;
+        }
 
         elements.push(
           <text 
             key={cell.id}
-            x={x + w/2 + blockTx} 
+            x={anchorX + blockTx} 
             y={startY + blockTy} 
-            textAnchor="middle" 
-            fill={config.textColor}
+            textAnchor={textAnchor} 
+            fill={textColor}
+            {...drawAttrs('content', 'fade', rowIndex, colIndex)}
             style={{ 
               fontSize: `${fontSize}px`,
               fontFamily: '"Patrick Hand", cursive',
-              fontWeight: rowIndex === 0 ? 'bold' : 'normal'
+              fontWeight: bold ? 'bold' : 'normal',
+              fontStyle: italic ? 'italic' : 'normal'
             }}
           >
-            {lines.map((line, i) => {
+            {wrapped.plain.map((line, i) => {
                 // Per-line horizontal wiggle
-                const lineTx = (Math.random() - 0.5) * textRoughness;
+                const lineTx = (rng() - 0.5) * textRoughness;
                 return (
                     <tspan 
                         key={i} 
-                        x={x + w/2 + blockTx + lineTx} 
+                        x={anchorX + blockTx + lineTx} 
                         dy={i === 0 ? 0 : lineHeight}
                     >
                         {line}
@@ -265,103 +478,481 @@ const HandDrawnTable: React.FC<HandDrawnTableProps> = ({ data, config }) => {
     return elements;
   }, [data, xPositions, yPositions, config, basePadding]);
 
-  // Background
-  const headerBackground = useMemo(() => {
-      if (data.length === 0 || config.fill !== 'hachure') return null;
-      const rects: React.ReactElement[] = [];
-      data[0].forEach((cell, colIndex) => {
+  // Backgrounds: per-cell fills, falling back to the header / body fills
+  const cellBackgrounds = useMemo(() => {
+      if (data.length === 0) return null;
+      const fillOptions = {
+          angle: config.fillAngle,
+          gap: config.fillGap,
+          weight: config.fillWeight,
+          roughness: config.roughness * 0.5,
+          bowing: config.bowing * 0.5
+      };
+      const groups: React.ReactElement[] = [];
+      data.forEach((row, rowIndex) => {
+        row.forEach((cell, colIndex) => {
           if (cell.hidden) return; 
+
+          let fillStyle: FillStyle = 'none';
+          let fillColor = config.fillColor;
+          if (cell.style?.fillColor) {
+              fillStyle = cell.style.fillStyle ?? 'hachure';
+              fillColor = cell.style.fillColor;
+          } else if (isHeaderCell(config, rowIndex, colIndex)) {
+              fillStyle = config.fill;
+          } else {
+              fillStyle = config.bodyFill;
+              fillColor = config.bodyFillColor;
+          }
+          if (fillStyle === 'none') return;
           
           const x = xPositions[colIndex];
-          const y = yPositions[0];
+          const y = yPositions[rowIndex];
           const w = xPositions[colIndex + cell.colSpan] - x;
-          const h = yPositions[0 + cell.rowSpan] - y;
-
-          rects.push(
-             <rect key={`bg-${colIndex}`} x={x} y={y} width={w} height={h} fill={config.fillColor} opacity="0.2" />
+          const h = yPositions[rowIndex + cell.rowSpan] - y;
+
+          const rng = seededRng(config.seed, 'fill', cell.id);
+          const shapes = getFillShapes(rectPolygon(x, y, w, h), fillStyle, fillOptions, rng);
+          const clipId = `fill-clip-${cell.id}`;
+
+          groups.push(
+             <React.Fragment key={`bg-${rowIndex}-${colIndex}`}>
+               <clipPath id={clipId}>
+                 <rect x={x} y={y} width={w} height={h} />
+               </clipPath>
+               <g clipPath={`url(#${clipId})`} opacity={fillStyle === 'solid' ? 0.35 : 0.7} {...drawAttrs('content', 'fade', rowIndex, colIndex)}>
+                 {shapes.map((shape, i) => (
+                   <path
+                     key={i}
+                     d={shape.d}
+                     fill={shape.filled ? fillColor : 'none'}
+                     stroke={shape.filled ? 'none' : fillColor}
+                     strokeWidth={config.fillWeight}
+                     strokeLinecap="round"
+                   />
+                 ))}
+               </g>
+             </React.Fragment>
           );
+        });
       });
-      return <g opacity="0.3">{rects}</g>;
+      return <g>{groups}</g>;
   }, [data, xPositions, yPositions, config]);
 
-  const downloadSvg = () => {
+  // Canvas behind the table, covering the whole SVG
+  const canvasBackground = useMemo(() => {
+      const shapes = getBackgroundShapes(
+          config.background, config.backgroundColor,
+          -canvasPadding, -canvasPadding, svgWidth, svgHeight,
+          seededRng(config.seed, 'canvas')
+      );
+      if (shapes.length === 0) return null;
+      return (
+          <g>
+            {shapes.map((shape, i) => (
+              <path
+                key={i}
+                d={shape.d}
+                fill={shape.fill ?? 'none'}
+                stroke={shape.stroke ?? 'none'}
+                strokeWidth={shape.strokeWidth}
+                strokeLinecap="round"
+                opacity={shape.opacity}
+              />
+            ))}
+          </g>
+      );
+  }, [config.background, config.backgroundColor, config.seed, canvasPadding, svgWidth, svgHeight]);
+
+  // Annotations find their cells by id, so cells of filtered-out or deleted rows drop their marks
+  const cellPositions = useMemo(() => {
+      const positions = new Map<string, { r: number; c: number }>();
+      data.forEach((row, r) => row.forEach((cell, c) => positions.set(cell.id, { r, c })));
+      return positions;
+  }, [data]);
+
+  // Box of the cell with the given id, spanning the whole merge it belongs to
+  const getCellBox = (id: string): Box | null => {
+      const position = cellPositions.get(id);
+      const cell = position && getCellAt(position.r, position.c);
+      if (!cell) return null;
+      return {
+          x: xPositions[cell.c],
+          y: yPositions[cell.r],
+          width: xPositions[cell.c + cell.colSpan] - xPositions[cell.c],
+          height: yPositions[cell.r + cell.rowSpan] - yPositions[cell.r]
+      };
+  };
+
+  // A note sits at its offset from the anchor cell's centre, kept inside the SVG so exports never cut it off
+  const getNoteLayout = (note: Annotation, anchor: Box) => {
+      const lines = (note.text ?? '').split('\n');
+      const lineHeight = NOTE_FONT_SIZE * 1.4;
+      const font = { fontSize: NOTE_FONT_SIZE, bold: false, italic: false };
+      const width = Math.max(...lines.map(line => measureText(line, font))) + NOTE_PADDING * 2;
+      const height = lines.length * lineHeight + NOTE_PADDING * 2;
+      const offset = note.offset ?? { x: 0, y: 0 };
+      const x = Math.max(-canvasPadding, Math.min(anchor.x + anchor.width / 2 + offset.x, totalWidth + canvasPadding - width));
+      const y = Math.max(-canvasPadding, Math.min(anchor.y + anchor.height / 2 + offset.y, totalHeight + canvasPadding - height));
+      return { box: { x, y, width, height }, lines, lineHeight };
+  };
+
+  const annotations = config.annotations;
+  const editable = !!onAnnotationsChange;
+
+  const getSvgPoint = (e: React.PointerEvent | React.MouseEvent): Point | null => {
+      const matrix = svgRef.current?.getScreenCTM();
+      if (!matrix) return null;
+      const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+      return { x: point.x, y: point.y };
+  };
+
+  // The cell under a point; points outside the table snap to the nearest cell
+  const getCellIdAt = (point: Point): string | null => {
+      if (data.length === 0 || data[0].length === 0) return null;
+      const cell = getCellAt(findBand(yPositions, point.y), findBand(xPositions, point.x));
+      return cell?.id ?? null;
+  };
+
+  const handleSvgPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+      if (!onAnnotationsChange || !annotationTool) return;
+      const point = getSvgPoint(e);
+      const cellId = point && getCellIdAt(point);
+      if (!point || !cellId) return;
+
+      if (annotationTool === 'erase') {
+          const next = annotations.filter(a => a.from !== cellId && a.to !== cellId);
+          if (next.length !== annotations.length) onAnnotationsChange(next);
+          return;
+      }
+      if (annotationTool === 'note') {
+          const anchor = getCellBox(cellId);
+          const text = prompt('便签内容');
+          if (!anchor || !text?.trim()) return;
+          const offset = { x: point.x - (anchor.x + anchor.width / 2), y: point.y - (anchor.y + anchor.height / 2) };
+          onAnnotationsChange([...annotations, createAnnotation('note', cellId, cellId, annotationColor, text.trim(), offset)]);
+          return;
+      }
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDraft(createAnnotation(annotationTool, cellId, cellId, annotationColor));
+  };
+
+  const handleSvgPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+      if (!draft) return;
+      const point = getSvgPoint(e);
+      if (!point) return;
+      const drag = noteDragRef.current;
+      if (drag) {
+          setDraft({ ...draft, offset: { x: drag.offset.x + point.x - drag.start.x, y: drag.offset.y + point.y - drag.start.y } });
+          return;
+      }
+      const cellId = getCellIdAt(point);
+      if (cellId && cellId !== draft.to) setDraft({ ...draft, to: cellId });
+  };
+
+  const handleSvgPointerUp = () => {
+      if (!draft || !onAnnotationsChange) return;
+      if (noteDragRef.current) {
+          const moved = draft.offset?.x !== noteDragRef.current.offset.x || draft.offset?.y !== noteDragRef.current.offset.y;
+          if (moved) onAnnotationsChange(annotations.map(a => (a.id === draft.id ? draft : a)));
+      } else if (draft.kind !== 'arrow' || draft.from !== draft.to) {
+          onAnnotationsChange([...annotations, draft]);
+      }
+      noteDragRef.current = null;
+      setDraft(null);
+  };
+
+  // Without a tool, notes can be dragged around; the eraser removes them
+  const handleNotePointerDown = (e: React.PointerEvent, note: Annotation) => {
+      if (!onAnnotationsChange || (annotationTool && annotationTool !== 'erase')) return;
+      e.stopPropagation();
+      if (annotationTool === 'erase') {
+          onAnnotationsChange(annotations.filter(a => a.id !== note.id));
+          return;
+      }
+      const point = getSvgPoint(e);
+      if (!point) return;
+      svgRef.current?.setPointerCapture(e.pointerId);
+      noteDragRef.current = { start: point, offset: note.offset ?? { x: 0, y: 0 } };
+      setDraft(note);
+  };
+
+  const editNote = (note: Annotation) => {
+      if (!onAnnotationsChange || annotationTool) return;
+      const text = prompt('便签内容（留空删除便签）', note.text ?? '');
+      if (text === null) return;
+      onAnnotationsChange(text.trim()
+          ? annotations.map(a => (a.id === note.id ? { ...a, text: text.trim() } : a))
+          : annotations.filter(a => a.id !== note.id));
+  };
+
+  // Drawn over everything else; the draft replaces its saved version while it's dragged
+  const shownAnnotations = draft
+      ? annotations.some(a => a.id === draft.id) ? annotations.map(a => (a.id === draft.id ? draft : a)) : [...annotations, draft]
+      : annotations;
+  const annotationLayer = shownAnnotations.flatMap((annotation, index) => {
+      const from = getCellBox(annotation.from);
+      const to = getCellBox(annotation.to);
+      if (!from || !to) return [];
+      const rng = seededRng(config.seed, 'annotation', annotation.id);
+      const note = annotation.kind === 'note' ? getNoteLayout(annotation, from) : null;
+      const box = note ? note.box : annotation.kind === 'arrow' ? from : unionBox(from, to);
+      const shapes = getAnnotationShapes(annotation, box, to, config.roughness, config.bowing, rng);
+      const draggable = note && editable && (!annotationTool || annotationTool === 'erase');
+
+      return [
+          <g
+            key={annotation.id}
+            onPointerDown={note ? (e) => handleNotePointerDown(e, annotation) : undefined}
+            onDoubleClick={note ? () => editNote(annotation) : undefined}
+            style={draggable ? { cursor: annotationTool === 'erase' ? 'pointer' : 'move' } : undefined}
+          >
+            {shapes.map((shape, i) => (
+              <path
+                key={i}
+                d={shape.d}
+                fill={shape.fill ?? 'none'}
+                stroke={shape.stroke ?? 'none'}
+                strokeWidth={shape.strokeWidth}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                opacity={shape.opacity}
+                {...drawAttrs('annotation', shape.fill ? 'fade' : 'stroke', index, 0)}
+              />
+            ))}
+            {note && (
+              <text
+                x={note.box.x + NOTE_PADDING}
+                y={note.box.y + NOTE_PADDING + note.lineHeight * 0.75}
+                fill={annotation.color}
+                {...drawAttrs('annotation', 'fade', index, 0)}
+                style={{ fontSize: `${NOTE_FONT_SIZE}px`, fontFamily: '"Patrick Hand", cursive' }}
+              >
+                {note.lines.map((line, i) => (
+                  <tspan key={i} x={note.box.x + NOTE_PADDING} dy={i === 0 ? 0 : note.lineHeight}>{line}</tspan>
+                ))}
+              </text>
+            )}
+          </g>
+      ];
+  });
+
+  const downloadSvg = async () => {
+    if (!svgRef.current) return;
+    setExporting(true);
+    try {
+      const svgData = await serializeSvg(svgRef.current, fontMode);
+      const blob = new Blob([svgData], { type: "image/svg+xml;charset=utf-8" });
+      downloadBlob(blob, "handy_table.svg");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // What image exports render, in SVG pixels: the table inside the SVG's small pad, or the whole
+  // canvas when there is one. A canvas brings its own background and margin, so the image
+  // panel's are ignored then.
+  const tableBox = hasCanvas
+    ? { x: 0, y: 0, width: svgWidth, height: svgHeight }
+    : { x: canvasPadding, y: canvasPadding, width: totalWidth, height: totalHeight };
+  const effectiveRasterOptions: RasterExportOptions = hasCanvas
+    ? { ...rasterOptions, background: 'transparent', margin: 0 }
+    : rasterOptions;
+
+  const downloadRaster = async () => {
+    if (!svgRef.current) return;
+    setExporting(true);
+    try {
+      const svgData = await serializeSvg(svgRef.current, fontMode);
+      const blob = await renderRaster(svgData, tableBox, effectiveRasterOptions);
+      downloadBlob(blob, getRasterFilename(rasterOptions));
+      setExportPanel(null);
+    } catch (error) {
+      console.error("Image export failed:", error);
+      alert("图片导出失败，请重试。");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const copyRaster = async () => {
+    if (!svgRef.current) return;
+    setExporting(true);
+    try {
+      await copyRasterToClipboard(serializeSvg(svgRef.current, fontMode), tableBox, effectiveRasterOptions);
+      setExportPanel(null);
+    } catch (error) {
+      console.error("Image copy failed:", error);
+      alert("复制图片失败，浏览器可能不支持，请使用下载。");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const downloadPdf = async (options: PdfExportOptions) => {
+    if (!svgRef.current) return;
+    setExporting(true);
+    try {
+      const blob = await exportPdf(svgRef.current, options);
+      downloadBlob(blob, "handy_table.pdf");
+      setExportPanel(null);
+    } catch (error) {
+      console.error("PDF export failed:", error);
+      alert("PDF 导出失败，请检查网络后重试（需要下载手写字体）。");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // The preview plays the same animated SVG the export writes, shown over the table. It always
+  // embeds the font: an SVG shown as an image can't load the remote one.
+  const playAnimation = async () => {
     if (!svgRef.current) return;
-    const svgData = new XMLSerializer().serializeToString(svgRef.current);
-    const blob = new Blob([svgData], { type: "image/svg+xml;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = "handy_table.svg";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    try {
+      const animated = animateSvg(await serializeSvg(svgRef.current, 'embed'), animationOptions);
+      setPlayback(URL.createObjectURL(new Blob([animated], { type: "image/svg+xml;charset=utf-8" })));
+    } catch (error) {
+      console.error("Animation preview failed:", error);
+      alert("动画预览失败，请重试。");
+    }
   };
 
-  const downloadPng = () => {
+  const downloadAnimatedSvg = async () => {
     if (!svgRef.current) return;
+    setExporting(true);
+    try {
+      const animated = animateSvg(await serializeSvg(svgRef.current, fontMode), animationOptions);
+      downloadBlob(new Blob([animated], { type: "image/svg+xml;charset=utf-8" }), "handy_table_animated.svg");
+      setExportPanel(null);
+    } catch (error) {
+      console.error("Animated SVG export failed:", error);
+      alert("动画 SVG 导出失败，请重试。");
+    } finally {
+      setExporting(false);
+    }
+  };
 
-    const svgData = new XMLSerializer().serializeToString(svgRef.current);
-    const img = new Image();
-    const blob = new Blob([svgData], { type: "image/svg+xml;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-
-    img.onload = () => {
-      const canvas = document.createElement("canvas");
-      const scale = 2;
-      canvas.width = (totalWidth + 10) * scale;
-      canvas.height = (totalHeight + 10) * scale;
-      const ctx = canvas.getContext("2d");
-
-      if (ctx) {
-        ctx.fillStyle = "white";
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        ctx.scale(scale, scale);
-        ctx.translate(5, 5); 
-        ctx.drawImage(img, -5, -5); 
-
-        const pngUrl = canvas.toDataURL("image/png");
-        const link = document.createElement("a");
-        link.href = pngUrl;
-        link.download = "handy_table.png";
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+  // Frames are rendered one at a time like an image export (same scale and background)
+  const downloadFrames = async () => {
+    if (!svgRef.current) return;
+    setExporting(true);
+    try {
+      const svgData = await serializeSvg(svgRef.current, fontMode);
+      const pngOptions: RasterExportOptions = { ...effectiveRasterOptions, format: 'png' };
+      const frames: ZipEntry[] = [];
+      for (const [i, time] of getFrameTimes(animationOptions).entries()) {
+        const data = await renderRaster(getFrameSvg(svgData, animationOptions, time), tableBox, pngOptions);
+        frames.push({ name: `frame_${String(i + 1).padStart(4, '0')}.png`, data });
       }
-    };
-    img.src = url;
+      downloadBlob(await createZip(frames), "handy_table_frames.zip");
+      setExportPanel(null);
+    } catch (error) {
+      console.error("Frame export failed:", error);
+      alert("PNG 帧导出失败，请重试。");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const toggleExportPanel = (panel: 'image' | 'pdf' | 'animation') => {
+    setExportPanel(current => (current === panel ? null : panel));
   };
 
   return (
     <div className="relative overflow-auto p-8 bg-white border-2 border-dashed border-gray-300 rounded-lg shadow-sm flex flex-col items-center">
-       <div className="absolute top-2 right-2 flex gap-2">
-         <button onClick={downloadSvg} className="bg-gray-100 hover:bg-gray-200 text-gray-600 text-xs px-2 py-1 rounded flex items-center gap-1 transition-colors">
+       <div className="absolute top-2 right-2 flex gap-2 items-center">
+         <select
+            value={fontMode}
+            onChange={(e) => setFontMode(e.target.value as FontEmbedMode)}
+            className="bg-gray-50 border border-gray-200 text-gray-600 text-xs px-1 py-1 rounded"
+            title="导出时的字体处理"
+         >
+            <option value="embed">嵌入字体</option>
+            <option value="outline">文字转路径</option>
+         </select>
+         <button onClick={downloadSvg} disabled={exporting} className="bg-gray-100 hover:bg-gray-200 text-gray-600 text-xs px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50">
             SVG
           </button>
-          <button onClick={downloadPng} className="bg-blue-50 hover:bg-blue-100 text-blue-600 text-xs px-2 py-1 rounded flex items-center gap-1 transition-colors">
-            PNG
+          <button onClick={() => toggleExportPanel('image')} disabled={exporting} className="bg-blue-50 hover:bg-blue-100 text-blue-600 text-xs px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50">
+            图片
+          </button>
+          <button onClick={() => toggleExportPanel('pdf')} disabled={exporting} className="bg-red-50 hover:bg-red-100 text-red-600 text-xs px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50">
+            PDF
+          </button>
+          <button onClick={() => toggleExportPanel('animation')} disabled={exporting} className="bg-purple-50 hover:bg-purple-100 text-purple-600 text-xs px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50">
+            动画
           </button>
+          {exportPanel === 'image' && (
+            <RasterExportPanel
+              options={rasterOptions}
+              onChange={setRasterOptions}
+              hasCanvas={hasCanvas}
+              exporting={exporting}
+              onExport={downloadRaster}
+              onCopy={copyRaster}
+              onClose={() => setExportPanel(null)}
+            />
+          )}
+          {exportPanel === 'pdf' && (
+            <PdfExportPanel exporting={exporting} onExport={downloadPdf} onClose={() => setExportPanel(null)} />
+          )}
+          {exportPanel === 'animation' && (
+            <AnimationPanel
+              options={animationOptions}
+              onChange={setAnimationOptions}
+              exporting={exporting}
+              playing={!!playback}
+              onPlay={playAnimation}
+              onExportSvg={downloadAnimatedSvg}
+              onExportFrames={downloadFrames}
+              onClose={() => setExportPanel(null)}
+            />
+          )}
        </div>
        
-      <div className="bg-white p-4">
+      <div className="relative bg-white p-4">
         <svg 
             ref={svgRef}
-            width={totalWidth + 10} 
-            height={totalHeight + 10} 
-            viewBox={`-5 -5 ${totalWidth + 10} ${totalHeight + 10}`}
+            width={svgWidth}
+            height={svgHeight}
+            viewBox={`${-canvasPadding} ${-canvasPadding} ${svgWidth} ${svgHeight}`}
             xmlns="http://www.w3.org/2000/svg"
+            onPointerDown={handleSvgPointerDown}
+            onPointerMove={handleSvgPointerMove}
+            onPointerUp={handleSvgPointerUp}
+            onPointerCancel={handleSvgPointerUp}
+            style={annotationTool ? { cursor: 'crosshair', touchAction: 'none' } : undefined}
         >
-          <defs>
-             <style>
-               {`@import url('https://fonts.googleapis.com/css2?family=Patrick+Hand&display=swap');`}
-             </style>
-          </defs>
-          <rect x="-5" y="-5" width={totalWidth + 10} height={totalHeight + 10} fill="white" opacity="0"/>
-          {headerBackground}
+          {/* The page already loads the hand font; exports inline it (see serializeSvg) */}
+          <defs />
+          {canvasBackground}
+          {cellBackgrounds}
           {paths}
           {textElements}
+          {annotationLayer.length > 0 && <g>{annotationLayer}</g>}
         </svg>
+        {playback && (
+          <img
+            src={playback}
+            width={svgWidth}
+            height={svgHeight}
+            alt=""
+            className="absolute top-4 left-4 bg-white cursor-pointer"
+            onClick={() => setPlayback(null)}
+            title="点击停止"
+          />
+        )}
       </div>
+      {onAnnotationsChange && (
+        <AnnotationToolbar
+          tool={annotationTool}
+          onToolChange={setAnnotationTool}
+          color={annotationColor}
+          onColorChange={setAnnotationColor}
+          count={annotations.length}
+          onClear={() => onAnnotationsChange([])}
+        />
+      )}
     </div>
   );
 };
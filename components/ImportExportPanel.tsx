@@ -0,0 +1,207 @@
+import React, { useRef, useState } from 'react';
+import { TableData } from '../types';
+import { decodeTextFile, exportDelimited, importDelimited } from '../utils/csvUtils';
+import { downloadBlob } from '../utils/downloadUtils';
+import { exportMarkdown, importMarkdown } from '../utils/markdownUtils';
+import { withComputedValues } from '../utils/formulaUtils';
+
+interface ImportExportPanelProps {
+  data: TableData;
+  onImportData: (data: TableData) => void;
+}
+
+type DelimiterChoice = 'auto' | ',' | '\t' | ';' | '|' | 'custom';
+
+const DELIMITER_OPTIONS: { value: DelimiterChoice; label: string }[] = [
+  { value: 'auto', label: '自动识别' },
+  { value: ',', label: '逗号 ,' },
+  { value: '\t', label: '制表符 Tab' },
+  { value: ';', label: '分号 ;' },
+  { value: '|', label: '竖线 |' },
+  { value: 'custom', label: '自定义' }
+];
+
+const ImportExportPanel: React.FC<ImportExportPanelProps> = ({ data, onImportData }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [delimiter, setDelimiter] = useState<DelimiterChoice>('auto');
+  const [customDelimiter, setCustomDelimiter] = useState('');
+  const [fillMerged, setFillMerged] = useState(false);
+  const [showMarkdownInput, setShowMarkdownInput] = useState(false);
+  const [markdownText, setMarkdownText] = useState('');
+  const [copyFeedback, setCopyFeedback] = useState(false);
+
+  const resolveDelimiter = (fileName?: string): string | undefined => {
+    if (delimiter === 'custom') return customDelimiter || undefined;
+    if (delimiter !== 'auto') return delimiter;
+    return fileName?.toLowerCase().endsWith('.tsv') ? '\t' : undefined;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = decodeTextFile(await file.arrayBuffer());
+      const isMarkdown = /\.(md|markdown)$/i.test(file.name);
+      const imported = isMarkdown ? importMarkdown(text) : importDelimited(text, resolveDelimiter(file.name));
+      if (!imported || imported.length === 0) {
+        alert("文件中没有可导入的数据。");
+        return;
+      }
+      onImportData(imported);
+    } catch (error) {
+      console.error(error);
+      alert("导入失败，请检查文件格式。");
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'tsv') => {
+    const text = exportDelimited(data, {
+      delimiter: format === 'tsv' ? '\t' : ',',
+      mergeMode: fillMerged ? 'fill' : 'owner'
+    });
+    // CSV gets a BOM so Excel opens UTF-8 (and therefore Chinese) correctly
+    const content = format === 'csv' ? '\uFEFF' + text : text;
+    const mime = format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+    downloadBlob(new Blob([content], { type: `${mime};charset=utf-8` }), `handy_table.${format}`);
+  };
+
+  const handleMarkdownImport = () => {
+    const imported = importMarkdown(markdownText);
+    if (!imported) {
+      alert("没有找到 Markdown 表格（需要表头行和 |---| 分隔行）。");
+      return;
+    }
+    onImportData(imported);
+    setMarkdownText('');
+    setShowMarkdownInput(false);
+  };
+
+  // Markdown has no formulas, it gets the computed results; CSV / TSV keep the formulas for spreadsheets
+  const handleMarkdownExport = () => {
+    const text = exportMarkdown(withComputedValues(data), fillMerged ? 'fill' : 'owner');
+    downloadBlob(new Blob([text], { type: 'text/markdown;charset=utf-8' }), 'handy_table.md');
+  };
+
+  const handleMarkdownCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportMarkdown(withComputedValues(data), fillMerged ? 'fill' : 'owner'));
+      setCopyFeedback(true);
+      setTimeout(() => setCopyFeedback(false), 2000);
+    } catch (error) {
+      console.error(error);
+      alert("复制失败，请使用下载。");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-semibold text-gray-700">📄 导入 / 导出</label>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={delimiter}
+          onChange={(e) => setDelimiter(e.target.value as DelimiterChoice)}
+          className="flex-1 text-sm border border-gray-300 rounded-md px-2 py-1 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          title="分隔符"
+        >
+          {DELIMITER_OPTIONS.map(option => (
+            <option key={option.label} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {delimiter === 'custom' && (
+          <input
+            type="text"
+            value={customDelimiter}
+            onChange={(e) => setCustomDelimiter(e.target.value)}
+            maxLength={3}
+            className="w-12 text-sm border border-gray-300 rounded-md px-2 py-1 font-mono"
+            placeholder="#"
+          />
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,.md,.markdown,text/csv,text/tab-separated-values,text/plain,text/markdown"
+        onChange={handleFile}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-2 px-3 rounded-lg text-gray-700 text-sm font-medium border border-gray-200 hover:bg-gray-50 transition-all active:scale-95"
+      >
+        导入 CSV / TSV / Markdown 文件
+      </button>
+
+      <button
+        onClick={() => setShowMarkdownInput(!showMarkdownInput)}
+        className="w-full py-1.5 px-3 rounded-lg text-gray-600 text-xs font-medium border border-dashed border-gray-300 hover:bg-gray-50 transition-all"
+      >
+        {showMarkdownInput ? '收起' : '粘贴 Markdown 表格'}
+      </button>
+      {showMarkdownInput && (
+        <div className="space-y-2">
+          <textarea
+            className="w-full p-2 text-xs font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none bg-gray-50"
+            rows={5}
+            placeholder={'| 名称 | 价格 |\n|:--|--:|\n| 咖啡 | 25 |'}
+            value={markdownText}
+            onChange={(e) => setMarkdownText(e.target.value)}
+          />
+          <button
+            onClick={handleMarkdownImport}
+            disabled={!markdownText.trim()}
+            className="w-full py-1.5 px-3 rounded-lg text-white text-xs font-medium bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 transition-all"
+          >
+            导入
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleExport('csv')}
+          className="flex-1 py-1.5 px-3 rounded-lg text-gray-700 text-xs font-medium border border-gray-200 hover:bg-gray-50 transition-all active:scale-95"
+        >
+          导出 CSV
+        </button>
+        <button
+          onClick={() => handleExport('tsv')}
+          className="flex-1 py-1.5 px-3 rounded-lg text-gray-700 text-xs font-medium border border-gray-200 hover:bg-gray-50 transition-all active:scale-95"
+        >
+          导出 TSV
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleMarkdownExport}
+          className="flex-1 py-1.5 px-3 rounded-lg text-gray-700 text-xs font-medium border border-gray-200 hover:bg-gray-50 transition-all active:scale-95"
+        >
+          导出 Markdown
+        </button>
+        <button
+          onClick={handleMarkdownCopy}
+          className={`flex-1 py-1.5 px-3 rounded-lg text-xs font-medium border transition-all active:scale-95
+            ${copyFeedback ? 'border-green-300 bg-green-50 text-green-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+        >
+          {copyFeedback ? '已复制' : '复制 Markdown'}
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={fillMerged}
+          onChange={(e) => setFillMerged(e.target.checked)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-xs text-gray-600">合并单元格导出时填充每一格</span>
+      </label>
+    </div>
+  );
+};
+
+export default ImportExportPanel;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { DEFAULT_PDF_OPTIONS, PdfExportOptions, PdfOrientation, PdfPageSize } from '../utils/pdfExport';
+
+interface PdfExportPanelProps {
+  exporting: boolean;
+  onExport: (options: PdfExportOptions) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE_OPTIONS: { value: PdfPageSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'a3', label: 'A3' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'legal', label: 'Legal' },
+  { value: 'fit', label: '适应表格大小' }
+];
+
+const ORIENTATION_OPTIONS: { value: PdfOrientation; label: string }[] = [
+  { value: 'auto', label: '自动' },
+  { value: 'portrait', label: '纵向' },
+  { value: 'landscape', label: '横向' }
+];
+
+const PdfExportPanel: React.FC<PdfExportPanelProps> = ({ exporting, onExport, onClose }) => {
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS);
+
+  const update = <K extends keyof PdfExportOptions>(key: K, value: PdfExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const isFitPage = options.pageSize === 'fit';
+
+  return (
+    <div className="absolute top-full right-0 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-20 space-y-2 text-xs text-gray-600">
+      <label className="flex items-center justify-between gap-2">
+        纸张
+        <select
+          value={options.pageSize}
+          onChange={(e) => update('pageSize', e.target.value as PdfPageSize)}
+          className="border border-gray-200 rounded px-1 py-0.5"
+        >
+          {PAGE_SIZE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        方向
+        <select
+          value={options.orientation}
+          disabled={isFitPage}
+          onChange={(e) => update('orientation', e.target.value as PdfOrientation)}
+          className="border border-gray-200 rounded px-1 py-0.5 disabled:opacity-50"
+        >
+          {ORIENTATION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        页边距 (mm)
+        <input
+          type="number"
+          min="0"
+          max="50"
+          value={options.margin}
+          onChange={(e) => update('margin', Math.max(0, parseFloat(e.target.value) || 0))}
+          className="w-16 border border-gray-200 rounded px-1 py-0.5"
+        />
+      </label>
+      <label className={`flex items-center gap-2 ${isFitPage ? 'opacity-50' : ''}`}>
+        <input
+          type="checkbox"
+          checked={options.fitToPage}
+          disabled={isFitPage}
+          onChange={(e) => update('fitToPage', e.target.checked)}
+        />
+        缩放以适应页面
+      </label>
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onClose} className="px-2 py-1 rounded hover:bg-gray-100">取消</button>
+        <button
+          onClick={() => onExport(options)}
+          disabled={exporting}
+          className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {exporting ? '导出中…' : '导出 PDF'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportPanel;
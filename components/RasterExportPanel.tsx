@@ -0,0 +1,159 @@
+import React from 'react';
+import { BASE_DPI, RasterBackground, RasterExportOptions, RasterFormat, getRasterFilename } from '../utils/rasterExport';
+
+interface RasterExportPanelProps {
+  options: RasterExportOptions;
+  onChange: (options: RasterExportOptions) => void;
+  hasCanvas: boolean; // The table has a canvas background, which replaces background and margin
+  exporting: boolean;
+  onExport: () => void;
+  onCopy: () => void;
+  onClose: () => void;
+}
+
+const SCALE_PRESETS = [1, 2, 3, 4];
+
+const FORMAT_OPTIONS: { value: RasterFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' }
+];
+
+const BACKGROUND_OPTIONS: { value: RasterBackground; label: string }[] = [
+  { value: 'transparent', label: '透明' },
+  { value: 'white', label: '白色' },
+  { value: 'custom', label: '自定义' }
+];
+
+const RasterExportPanel: React.FC<RasterExportPanelProps> = ({ options, onChange, hasCanvas, exporting, onExport, onCopy, onClose }) => {
+  const update = <K extends keyof RasterExportOptions>(key: K, value: RasterExportOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  const hasQuality = options.format !== 'png';
+  const transparentUnsupported = !hasCanvas && options.format === 'jpeg' && options.background === 'transparent';
+
+  return (
+    <div className="absolute top-full right-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg p-3 z-20 space-y-2 text-xs text-gray-600">
+      <div className="flex items-center justify-between gap-2">
+        倍率
+        <div className="flex items-center gap-1">
+          {SCALE_PRESETS.map(s => (
+            <button
+              key={s}
+              onClick={() => update('scale', s)}
+              className={`px-1.5 py-0.5 rounded border ${options.scale === s ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-gray-200 hover:bg-gray-50'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center justify-between gap-2">
+        DPI
+        <input
+          type="number"
+          min="24"
+          max="1200"
+          step="24"
+          value={Math.round(options.scale * BASE_DPI)}
+          onChange={(e) => update('scale', Math.max(0.25, (parseFloat(e.target.value) || BASE_DPI) / BASE_DPI))}
+          className="w-20 border border-gray-200 rounded px-1 py-0.5"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        格式
+        <select
+          value={options.format}
+          onChange={(e) => update('format', e.target.value as RasterFormat)}
+          className="border border-gray-200 rounded px-1 py-0.5"
+        >
+          {FORMAT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </label>
+      {hasQuality && (
+        <label className="flex items-center justify-between gap-2">
+          质量
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.01"
+            value={options.quality}
+            onChange={(e) => update('quality', parseFloat(e.target.value))}
+            className="w-28"
+          />
+          <span className="w-8 text-right">{Math.round(options.quality * 100)}</span>
+        </label>
+      )}
+      {hasCanvas ? (
+        <p className="text-gray-400">使用表格的画布背景，不另加背景和外边距。</p>
+      ) : (
+        <>
+          <label className="flex items-center justify-between gap-2">
+            背景
+            <div className="flex items-center gap-1">
+              <select
+                value={options.background}
+                onChange={(e) => update('background', e.target.value as RasterBackground)}
+                className="border border-gray-200 rounded px-1 py-0.5"
+              >
+                {BACKGROUND_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              {options.background === 'custom' && (
+                <input
+                  type="color"
+                  value={options.backgroundColor}
+                  onChange={(e) => update('backgroundColor', e.target.value)}
+                  className="h-5 w-6 cursor-pointer border border-gray-300 rounded"
+                />
+              )}
+            </div>
+          </label>
+          {transparentUnsupported && <p className="text-amber-600">JPEG 不支持透明，将使用白色背景。</p>}
+          <label className="flex items-center justify-between gap-2">
+            外边距 (px)
+            <input
+              type="number"
+              min="0"
+              max="200"
+              value={options.margin}
+              onChange={(e) => update('margin', Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-16 border border-gray-200 rounded px-1 py-0.5"
+            />
+          </label>
+        </>
+      )}
+      <label className="flex items-center justify-between gap-2">
+        文件名
+        <input
+          type="text"
+          value={options.filename}
+          onChange={(e) => update('filename', e.target.value)}
+          className="w-32 border border-gray-200 rounded px-1 py-0.5"
+        />
+      </label>
+      <p className="text-gray-400 truncate" title={getRasterFilename(options)}>{getRasterFilename(options)}</p>
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onClose} className="px-2 py-1 rounded hover:bg-gray-100">取消</button>
+        <button
+          onClick={onCopy}
+          disabled={exporting}
+          className="px-2 py-1 rounded border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+          title="以 PNG 格式复制到剪贴板"
+        >
+          复制图片
+        </button>
+        <button
+          onClick={onExport}
+          disabled={exporting}
+          className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {exporting ? '导出中…' : '下载'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RasterExportPanel;
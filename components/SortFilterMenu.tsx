@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ColumnFilter, FilterOperator } from '../types';
+import { FILTER_OPERATORS, SortMode, SortOrder } from '../utils/sortFilter';
+
+interface SortFilterMenuProps {
+  col: number;
+  filter?: ColumnFilter;
+  sortMode: SortMode;
+  onSortModeChange: (mode: SortMode) => void;
+  onSort: (order: SortOrder) => void;
+  onApplyFilter: (filter: ColumnFilter) => void;
+  onClearFilter: () => void;
+}
+
+const SORT_MODE_LABELS: Record<SortMode, string> = {
+  natural: 'Natural (1, 2, 10)',
+  text: 'Text',
+  number: 'Number'
+};
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: 'contains',
+  equals: 'equals',
+  greater: '>',
+  less: '<',
+  'not-empty': 'is not empty'
+};
+
+// Sort and filter section of the column header menu
+const SortFilterMenu: React.FC<SortFilterMenuProps> = ({
+  col, filter, sortMode, onSortModeChange, onSort, onApplyFilter, onClearFilter
+}) => {
+  const [operator, setOperator] = useState<FilterOperator>(filter?.operator ?? 'contains');
+  const [value, setValue] = useState(filter?.value ?? '');
+
+  const applyFilter = () => onApplyFilter({ col, operator, value });
+
+  return (
+    <div className="px-3 py-1.5 space-y-2">
+      <div className="flex items-center gap-1">
+        <select
+          value={sortMode}
+          onChange={(e) => onSortModeChange(e.target.value as SortMode)}
+          className="flex-1 border border-gray-200 rounded px-1 py-0.5"
+          title="Ordering"
+        >
+          {(Object.keys(SORT_MODE_LABELS) as SortMode[]).map(mode => (
+            <option key={mode} value={mode}>{SORT_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <button className="px-2 py-0.5 rounded border border-gray-200 hover:bg-gray-100" onClick={() => onSort('asc')} title="Sort ascending">↑</button>
+        <button className="px-2 py-0.5 rounded border border-gray-200 hover:bg-gray-100" onClick={() => onSort('desc')} title="Sort descending">↓</button>
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center gap-1">
+          <select
+            value={operator}
+            onChange={(e) => setOperator(e.target.value as FilterOperator)}
+            className="border border-gray-200 rounded px-1 py-0.5"
+          >
+            {FILTER_OPERATORS.map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+          </select>
+          {operator !== 'not-empty' && (
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') applyFilter(); }}
+              className="w-24 border border-gray-200 rounded px-1 py-0.5"
+              placeholder="Filter…"
+            />
+          )}
+        </div>
+        <div className="flex justify-end gap-1">
+          {filter && (
+            <button className="px-2 py-0.5 rounded hover:bg-gray-100 text-gray-500" onClick={onClearFilter}>Clear</button>
+          )}
+          <button className="px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700" onClick={applyFilter}>Filter</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SortFilterMenu;
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { StylePreset, TableConfig, TableStyle } from '../types';
+import { BUILT_IN_THEMES, createPreset, exportPresets, importPresets } from '../utils/stylePresets';
+import { loadPresets, savePresets } from '../services/presetService';
+import { downloadBlob } from '../utils/downloadUtils';
+import { decodeTextFile } from '../utils/csvUtils';
+
+interface ThemeGalleryProps {
+  config: TableConfig;
+  onApply: (style: TableStyle) => void;
+}
+
+// Tiny sketch of a theme: canvas, header and body fills under a small grid in its line and text colours
+const ThemeSwatch: React.FC<{ style: TableStyle }> = ({ style }) => (
+  <svg viewBox="0 0 48 32" className="w-full h-8">
+    {style.background !== 'none' && <rect x="0" y="0" width="48" height="32" fill={style.backgroundColor} />}
+    {style.fill !== 'none' && <rect x="2" y="2" width="44" height="9" fill={style.fillColor} opacity={style.fill === 'solid' ? 0.5 : 0.35} />}
+    {style.bodyFill !== 'none' && <rect x="2" y="11" width="44" height="19" fill={style.bodyFillColor} opacity="0.35" />}
+    <g stroke={style.stroke} strokeWidth={Math.min(2, style.strokeWidth / 1.5)} fill="none" strokeLinecap="round">
+      <rect x="2" y="2" width="44" height="28" />
+      <line x1="2" y1={style.headerSeparator === 'double' ? 10 : 11} x2="46" y2={style.headerSeparator === 'double' ? 10 : 11} strokeWidth={style.headerSeparator === 'thick' ? 2.5 : undefined} />
+      {style.headerSeparator === 'double' && <line x1="2" y1="12.5" x2="46" y2="12.5" />}
+      <line x1="2" y1="20.5" x2="46" y2="20.5" />
+      <line x1="24" y1="2" x2="24" y2="30" />
+    </g>
+    <g fill={style.textColor}>
+      <rect x="7" y="5.5" width="12" height="2" rx="1" />
+      <rect x="7" y="15" width="9" height="1.5" rx="0.75" />
+      <rect x="29" y="15" width="11" height="1.5" rx="0.75" />
+    </g>
+  </svg>
+);
+
+const ThemeGallery: React.FC<ThemeGalleryProps> = ({ config, onApply }) => {
+  const [presets, setPresets] = useState<StylePreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updatePresets = (next: StylePreset[]) => {
+    setPresets(next);
+    try {
+      savePresets(next);
+    } catch (error) {
+      console.error("Saving style presets failed:", error);
+      alert("样式预设保存失败，浏览器存储空间可能已满。");
+    }
+  };
+
+  const saveCurrent = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    // Saving under an existing name updates that preset
+    const existing = presets.find(p => p.name === name);
+    const preset = createPreset(name, config);
+    updatePresets(existing ? presets.map(p => (p.id === existing.id ? { ...preset, id: existing.id } : p)) : [...presets, preset]);
+    setPresetName('');
+  };
+
+  const deletePreset = (preset: StylePreset) => {
+    if (!confirm(`删除样式预设“${preset.name}”？`)) return;
+    updatePresets(presets.filter(p => p.id !== preset.id));
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportPresets(presets)], { type: 'application/json;charset=utf-8' }), 'handy_table_presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const issues: string[] = [];
+      const imported = importPresets(decodeTextFile(await file.arrayBuffer()), issues);
+      if (issues.length > 0) console.warn("Imported presets were repaired:", issues);
+      if (imported.length === 0) {
+        alert("文件中没有可导入的样式预设。");
+        return;
+      }
+      updatePresets([...presets, ...imported]);
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : "导入失败，请检查文件格式。");
+    }
+  };
+
+  const renderCard = (preset: StylePreset, removable: boolean) => (
+    <div key={preset.id} className="group relative">
+      <button
+        onClick={() => onApply(preset.style)}
+        className="w-full p-1 rounded-md border border-gray-200 hover:border-blue-400 hover:bg-blue-50 transition-colors"
+        title={`应用“${preset.name}”`}
+      >
+        <ThemeSwatch style={preset.style} />
+        <div className="text-[11px] text-gray-600 truncate">{preset.name}</div>
+      </button>
+      {removable && (
+        <button
+          onClick={() => deletePreset(preset)}
+          className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-white border border-gray-200 text-[10px] text-gray-400 hover:text-red-500"
+          title="删除预设"
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-xs text-gray-500">主题</label>
+      <div className="grid grid-cols-3 gap-2">
+        {BUILT_IN_THEMES.map(theme => renderCard(theme, false))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-gray-500">我的预设</label>
+        <div className="flex gap-2 text-xs">
+          <button onClick={() => fileInputRef.current?.click()} className="text-blue-600 hover:underline">导入</button>
+          <button onClick={handleExport} disabled={presets.length === 0} className="text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline">导出</button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+      {presets.length > 0 ? (
+        <div className="grid grid-cols-3 gap-2">
+          {presets.map(preset => renderCard(preset, true))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">还没有保存的预设。</p>
+      )}
+      <div className="flex gap-2">
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') saveCurrent(); }}
+          placeholder="预设名称"
+          className="flex-1 min-w-0 text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          onClick={saveCurrent}
+          disabled={!presetName.trim()}
+          className="py-1 px-2 rounded text-xs font-medium text-blue-600 border border-blue-200 hover:bg-blue-50 transition-all active:scale-95 disabled:opacity-50"
+          title="把当前样式保存为预设（不含列宽、行高、筛选等表格布局）"
+        >
+          保存当前样式
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeGallery;
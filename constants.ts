@@ -0,0 +1,57 @@
+import { TableConfig, TableData } from './types';
+
+export const DEFAULT_CONFIG: TableConfig = {
+  roughness: 1.5,
+  bowing: 1.2,
+  seed: 1,
+  stroke: '#2d3748', // Gray 800
+  strokeWidth: 2,
+  gridLines: 'all',
+  padding: 10,
+  textColor: '#1a202c', // Gray 900
+  background: 'none',
+  backgroundColor: '#ffffff',
+  fill: 'hachure',
+  fillColor: '#60a5fa', // Blue 400
+  fillAngle: -41,
+  fillGap: 8,
+  fillWeight: 1,
+  bodyFill: 'none',
+  bodyFillColor: '#fde68a', // Amber 200
+  widthScale: 1.0,
+  headerRows: 1,
+  headerColumns: 0,
+  headerFontSize: 20,
+  headerBold: true,
+  bodyFontSize: 16,
+  bodyBold: false,
+  headerSeparator: 'single',
+  customColumnWidths: {},
+  customRowHeights: {},
+  filters: [],
+  columnFormats: {},
+  annotations: []
+};
+
+export const DEFAULT_DATA: TableData = [
+  [
+      { id: '1', value: "Feature", rowSpan: 1, colSpan: 1 },
+      { id: '2', value: "Basic", rowSpan: 1, colSpan: 1 }, 
+      { id: '3', value: "Pro", rowSpan: 1, colSpan: 1 }
+  ],
+  [
+      { id: '4', value: "Users", rowSpan: 1, colSpan: 1 }, 
+      { id: '5', value: "1", rowSpan: 1, colSpan: 1 }, 
+      { id: '6', value: "Unlimited", rowSpan: 1, colSpan: 1 }
+  ],
+  [
+      { id: '7', value: "Storage", rowSpan: 1, colSpan: 1 }, 
+      { id: '8', value: "5GB", rowSpan: 1, colSpan: 1 }, 
+      { id: '9', value: "1TB", rowSpan: 1, colSpan: 1 }
+  ],
+  [
+      { id: '10', value: "Support", rowSpan: 1, colSpan: 1 }, 
+      { id: '11', value: "Email", rowSpan: 1, colSpan: 1 }, 
+      { id: '12', value: "24/7 Live", rowSpan: 1, colSpan: 1 }
+  ]
+];
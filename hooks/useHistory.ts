@@ -0,0 +1,90 @@
+import { useCallback, useRef, useState } from 'react';
+import { HistorySetter } from '../types';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+interface HistoryOptions {
+  limit?: number; // Maximum number of undo steps kept
+  coalesceMs?: number; // Changes with the same coalesce key within this window merge into one step
+}
+
+// Structural equality; unchanged parts of a state are shared, so most branches stop at Object.is
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(key => key in b && isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+export const useHistory = <T,>(initial: () => T, { limit = 100, coalesceMs = 1000 }: HistoryOptions = {}) => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({ past: [], present: initial(), future: [] }));
+  const lastChange = useRef<{ key: string; time: number } | null>(null);
+
+  const set: HistorySetter<T> = useCallback((action, coalesceKey) => {
+    const now = Date.now();
+    const last = lastChange.current;
+    const sameKey = !!coalesceKey && last?.key === coalesceKey;
+    const coalesce = sameKey && now - last!.time < coalesceMs;
+    lastChange.current = coalesceKey ? { key: coalesceKey, time: now } : null;
+
+    setHistory(prev => {
+      const next = typeof action === 'function' ? (action as (prev: T) => T)(prev.present) : action;
+      if (Object.is(next, prev.present)) return prev;
+      // Bringing back the state from before the step (typing, then cancelling the edit) drops
+      // the step instead of leaving one that undoes nothing
+      const before = prev.past[prev.past.length - 1];
+      if (sameKey && prev.past.length > 0 && isEqual(next, before)) {
+        return { past: prev.past.slice(0, -1), present: before, future: [] };
+      }
+      if (coalesce) return { ...prev, present: next, future: [] };
+      return { past: [...prev.past, prev.present].slice(-limit), present: next, future: [] };
+    });
+  }, [limit, coalesceMs]);
+
+  const undo = useCallback(() => {
+    lastChange.current = null;
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChange.current = null;
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present].slice(-limit),
+        present: prev.future[0],
+        future: prev.future.slice(1)
+      };
+    });
+  }, [limit]);
+
+  // Replace the state and drop all history, e.g. when switching to another document
+  const reset = useCallback((next: T) => {
+    lastChange.current = null;
+    setHistory({ past: [], present: next, future: [] });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -0,0 +1,75 @@
+import opentype from "opentype.js";
+
+// Font resources for self-contained exports. All are fetched on demand and cached:
+// - a subsetted @font-face from Google Fonts (the `text=` parameter returns a font that only
+//   contains the requested glyphs), inlined as base64 so the SVG needs no network
+// - the full TrueType file, parsed with opentype.js for converting text to outlines and
+//   embedded as-is in PDFs (jsPDF only reads TTF)
+// - a Chinese hand-style TrueType font, only loaded for PDFs whose text the hand font can't
+//   draw, so Chinese cells stay real text there too
+
+const GOOGLE_FONTS_CSS_URL = 'https://fonts.googleapis.com/css2?family=Patrick+Hand';
+const FONT_FILE_URL = 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/patrickhand/PatrickHand-Regular.ttf';
+const FALLBACK_FONT_FILE_URL = 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/zcoolkuaile/ZCOOLKuaiLe-Regular.ttf';
+
+export const FONT_IMPORT_CSS = `@import url('${GOOGLE_FONTS_CSS_URL}&display=swap');`;
+
+// Cache loads by key; failures aren't kept, the next export may be online again
+const cacheLoad = <T>(load: (key: string) => Promise<T>) => {
+  const cache = new Map<string, Promise<T>>();
+  return (key = ''): Promise<T> => {
+    let promise = cache.get(key);
+    if (!promise) {
+      promise = load(key);
+      promise.catch(() => cache.delete(key));
+      cache.set(key, promise);
+    }
+    return promise;
+  };
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fetchSubsetCss = async (chars: string): Promise<string> => {
+  const cssResponse = await fetch(`${GOOGLE_FONTS_CSS_URL}&text=${encodeURIComponent(chars)}`);
+  if (!cssResponse.ok) throw new Error(`Font CSS request failed: ${cssResponse.status}`);
+  let css = await cssResponse.text();
+
+  const urls = Array.from(new Set(Array.from(css.matchAll(/url\((['"]?)([^'")]+)\1\)/g), match => match[2])));
+  for (const url of urls) {
+    const fontResponse = await fetch(url);
+    if (!fontResponse.ok) throw new Error(`Font file request failed: ${fontResponse.status}`);
+    const dataUrl = await blobToDataUrl(await fontResponse.blob());
+    css = css.split(url).join(dataUrl);
+  }
+  return css;
+};
+
+const loadSubsetCss = cacheLoad(fetchSubsetCss);
+
+// @font-face rules with the font inlined, containing only the glyphs used in `text`
+export const getEmbeddedFontCss = (text: string): Promise<string> => {
+  const chars = Array.from(new Set(Array.from(text.replace(/\s/g, '')))).sort().join('');
+  if (!chars) return Promise.resolve('');
+  return loadSubsetCss(chars);
+};
+
+const fetchFontFile = (url: string): Promise<ArrayBuffer> =>
+  fetch(url).then(response => {
+    if (!response.ok) throw new Error(`Font request failed: ${response.status}`);
+    return response.arrayBuffer();
+  });
+
+export const loadFontFile = cacheLoad(() => fetchFontFile(FONT_FILE_URL));
+
+export const loadOutlineFont = cacheLoad(() => loadFontFile().then(buffer => opentype.parse(buffer)));
+
+export const loadFallbackFontFile = cacheLoad(() => fetchFontFile(FALLBACK_FONT_FILE_URL));
+
+export const loadFallbackOutlineFont = cacheLoad(() => loadFallbackFontFile().then(buffer => opentype.parse(buffer)));
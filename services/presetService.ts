@@ -0,0 +1,22 @@
+import { StylePreset } from "../types";
+import { importPresets, exportPresets } from "../utils/stylePresets";
+
+// Saved style presets, kept in localStorage in the same format as an exported preset file
+// so the two can never drift apart.
+
+const PRESETS_KEY = 'handy_table_presets';
+
+export const loadPresets = (): StylePreset[] => {
+  const raw = localStorage.getItem(PRESETS_KEY);
+  if (raw === null) return [];
+  try {
+    return importPresets(raw);
+  } catch (error) {
+    console.warn("Saved style presets could not be read:", error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: StylePreset[]) => {
+  localStorage.setItem(PRESETS_KEY, exportPresets(presets));
+};
@@ -0,0 +1,256 @@
+import { DocumentMeta, TableConfig, TableData, TableDocument } from "../types";
+import { DEFAULT_CONFIG, DEFAULT_DATA } from "../constants";
+import { repairConfig, repairTableData } from "../utils/documentValidation";
+
+// Document library persisted in localStorage. The index lists the documents; each document
+// lives under its own key so saving one table doesn't rewrite the others.
+//
+// Stored documents carry a schema version. When the shape of TableCell / TableConfig changes,
+// bump SCHEMA_VERSION and add a migration from the previous version to MIGRATIONS.
+
+export const SCHEMA_VERSION = 2;
+
+const INDEX_KEY = 'handy_table_library';
+const DOCUMENT_KEY_PREFIX = 'handy_table_doc_';
+const CORRUPT_KEY_PREFIX = 'handy_table_corrupt_';
+const LEGACY_DATA_KEY = 'handy_table_data_v1';
+const LEGACY_CONFIG_KEY = 'handy_table_config_v1';
+
+export interface LibraryIndex {
+  activeId: string | null;
+  documents: DocumentMeta[];
+}
+
+export interface LoadResult {
+  document: TableDocument;
+  issues: string[]; // Problems found in the saved data and repaired while loading
+}
+
+type StoredDocument = Record<string, unknown> & { version?: number };
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// MIGRATIONS[n] upgrades a stored document from version n to n + 1
+const MIGRATIONS: Record<number, (doc: StoredDocument) => StoredDocument> = {
+  // v1: the single-table format ({ data, config } without metadata)
+  1: (doc) => {
+    const now = Date.now();
+    return {
+      ...doc,
+      id: typeof doc.id === 'string' ? doc.id : generateId(),
+      name: typeof doc.name === 'string' ? doc.name : '我的表格',
+      createdAt: typeof doc.createdAt === 'number' ? doc.createdAt : now,
+      updatedAt: typeof doc.updatedAt === 'number' ? doc.updatedAt : now,
+      version: 2
+    };
+  }
+};
+
+const documentKey = (id: string) => `${DOCUMENT_KEY_PREFIX}${id}`;
+
+const readJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+const toMeta = (doc: TableDocument): DocumentMeta => ({
+  id: doc.id,
+  name: doc.name,
+  createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt
+});
+
+const migrateDocument = (stored: StoredDocument): StoredDocument | null => {
+  let doc = stored;
+  let version = typeof doc.version === 'number' ? doc.version : 1;
+  if (version > SCHEMA_VERSION) return null; // Written by a newer version of the app
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    doc = migrate(doc);
+    version++;
+  }
+  return doc;
+};
+
+// Validate a stored document; null if it can't be read as a table at all
+const parseDocument = (raw: unknown, id: string): LoadResult | null => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+  const migrated = migrateDocument(raw as StoredDocument);
+  if (!migrated) return null;
+
+  const issues: string[] = [];
+  const data = repairTableData(migrated.data, issues);
+  if (!data) return null;
+  const config = repairConfig(migrated.config, issues);
+
+  const now = Date.now();
+  const document: TableDocument = {
+    id,
+    name: typeof migrated.name === 'string' && migrated.name.trim() ? migrated.name : '未命名表格',
+    createdAt: typeof migrated.createdAt === 'number' ? migrated.createdAt : now,
+    updatedAt: typeof migrated.updatedAt === 'number' ? migrated.updatedAt : now,
+    data,
+    config
+  };
+
+  return { document, issues };
+};
+
+const writeIndex = (index: LibraryIndex) => {
+  localStorage.setItem(INDEX_KEY, JSON.stringify({ version: SCHEMA_VERSION, ...index }));
+};
+
+const writeDocument = (doc: TableDocument) => {
+  localStorage.setItem(documentKey(doc.id), JSON.stringify({ version: SCHEMA_VERSION, ...doc }));
+};
+
+// Rebuild the index from the document keys, used when the index itself is missing or corrupt
+const rebuildIndex = (): LibraryIndex => {
+  const documents: DocumentMeta[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(DOCUMENT_KEY_PREFIX)) continue;
+    const result = parseDocument(readJson(key), key.slice(DOCUMENT_KEY_PREFIX.length));
+    if (result) documents.push(toMeta(result.document));
+  }
+  documents.sort((a, b) => b.updatedAt - a.updatedAt);
+  return { activeId: documents[0]?.id ?? null, documents };
+};
+
+// Bring a table saved by the single-table version of the app into the library
+const importLegacyDocument = (): DocumentMeta | null => {
+  const legacyData = readJson(LEGACY_DATA_KEY);
+  const legacyConfig = readJson(LEGACY_CONFIG_KEY);
+  if (legacyData === undefined && legacyConfig === undefined) return null;
+
+  const id = generateId();
+  const result = parseDocument({ data: legacyData ?? DEFAULT_DATA, config: legacyConfig }, id);
+  if (!result) return null;
+  writeDocument(result.document);
+  localStorage.removeItem(LEGACY_DATA_KEY);
+  localStorage.removeItem(LEGACY_CONFIG_KEY);
+  return toMeta(result.document);
+};
+
+const readIndex = (): LibraryIndex => {
+  const raw = readJson(INDEX_KEY);
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as LibraryIndex).documents)) {
+    return rebuildIndex();
+  }
+
+  const stored = raw as LibraryIndex;
+  const documents = stored.documents
+    .filter(meta => meta && typeof meta.id === 'string' && localStorage.getItem(documentKey(meta.id)) !== null)
+    .map(meta => ({
+      id: meta.id,
+      name: typeof meta.name === 'string' ? meta.name : '未命名表格',
+      createdAt: typeof meta.createdAt === 'number' ? meta.createdAt : Date.now(),
+      updatedAt: typeof meta.updatedAt === 'number' ? meta.updatedAt : Date.now()
+    }));
+  return { activeId: typeof stored.activeId === 'string' ? stored.activeId : null, documents };
+};
+
+// Read the library index, repairing it and importing a legacy single-table save if present
+export const loadLibrary = (): LibraryIndex => {
+  const index = readIndex();
+
+  const legacy = importLegacyDocument();
+  if (legacy) {
+    index.documents.unshift(legacy);
+    index.activeId = legacy.id;
+  }
+
+  if (!index.documents.some(meta => meta.id === index.activeId)) {
+    index.activeId = index.documents[0]?.id ?? null;
+  }
+  writeIndex(index);
+  return index;
+};
+
+export const setActiveDocument = (id: string) => {
+  writeIndex({ ...readIndex(), activeId: id });
+};
+
+// Load and validate a document. Documents that can't be repaired are moved aside (kept under
+// a separate key for manual recovery) and dropped from the library.
+export const loadDocument = (id: string): LoadResult | null => {
+  const raw = localStorage.getItem(documentKey(id));
+  if (raw === null) return null;
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    parsed = null;
+  }
+  const result = parseDocument(parsed, id);
+  if (result) return result;
+
+  localStorage.setItem(`${CORRUPT_KEY_PREFIX}${id}`, raw);
+  localStorage.removeItem(documentKey(id));
+  const index = readIndex();
+  writeIndex({ ...index, documents: index.documents.filter(meta => meta.id !== id) });
+  return null;
+};
+
+export const saveDocument = (doc: TableDocument): DocumentMeta[] => {
+  writeDocument(doc);
+  const index = readIndex();
+  const meta = toMeta(doc);
+  const exists = index.documents.some(m => m.id === doc.id);
+  const documents = exists
+    ? index.documents.map(m => (m.id === doc.id ? meta : m))
+    : [meta, ...index.documents];
+  writeIndex({ ...index, documents });
+  return documents;
+};
+
+// Autosave of the open document: keeps its name and creation time, bumps updatedAt
+export const saveDocumentContent = (id: string, data: TableData, config: TableConfig): DocumentMeta[] => {
+  const meta = readIndex().documents.find(m => m.id === id);
+  const now = Date.now();
+  return saveDocument({
+    id,
+    name: meta?.name ?? '未命名表格',
+    createdAt: meta?.createdAt ?? now,
+    updatedAt: now,
+    data,
+    config
+  });
+};
+
+export const createDocument = (name: string, data: TableData = DEFAULT_DATA, config: TableConfig = DEFAULT_CONFIG): TableDocument => {
+  const now = Date.now();
+  const doc: TableDocument = { id: generateId(), name, createdAt: now, updatedAt: now, data, config };
+  saveDocument(doc);
+  return doc;
+};
+
+export const duplicateDocument = (id: string): TableDocument | null => {
+  const result = loadDocument(id);
+  if (!result) return null;
+  const source = result.document;
+  return createDocument(`${source.name} 副本`, source.data, source.config);
+};
+
+export const renameDocument = (id: string, name: string): DocumentMeta[] => {
+  const result = loadDocument(id);
+  if (!result) return readIndex().documents;
+  return saveDocument({ ...result.document, name, updatedAt: Date.now() });
+};
+
+export const deleteDocument = (id: string): LibraryIndex => {
+  localStorage.removeItem(documentKey(id));
+  const index = readIndex();
+  const documents = index.documents.filter(meta => meta.id !== id);
+  const activeId = index.activeId === id ? documents[0]?.id ?? null : index.activeId;
+  const next = { activeId, documents };
+  writeIndex(next);
+  return next;
+};
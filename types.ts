@@ -1,15 +1,119 @@
+export type FillStyle = 'none' | 'solid' | 'hachure' | 'cross-hatch' | 'zigzag' | 'dots';
+
+export type CanvasBackground = 'none' | 'color' | 'paper' | 'grid' | 'lined' | 'chalkboard';
+
+export type HeaderSeparator = 'single' | 'thick' | 'double';
+
+// Which grid lines the table draws by default; cell border overrides are drawn either way
+export type GridLines = 'all' | 'outer' | 'horizontal' | 'no-vertical' | 'none';
+
+export type BorderLine = 'solid' | 'thick' | 'dashed' | 'dotted' | 'double' | 'hidden';
+
+export type BorderEdge = 'top' | 'right' | 'bottom' | 'left';
+
+// Override for one edge of a cell; the colour defaults to the table's line colour
+export interface CellBorder {
+  line: BorderLine;
+  color?: string;
+}
+
+export type FilterOperator = 'contains' | 'equals' | 'greater' | 'less' | 'not-empty';
+
+// Keeps the body rows whose value in `col` matches; header rows are never filtered
+export interface ColumnFilter {
+  col: number;
+  operator: FilterOperator;
+  value: string;
+}
+
+export type ColumnType = 'text' | 'number' | 'currency' | 'percent' | 'date' | 'boolean';
+
+export type BooleanStyle = 'marks' | 'text';
+
+// How the body cells of a column are drawn; the values stay as typed, only the drawing is formatted
+export interface ColumnFormat {
+  type: ColumnType;
+  decimals: number; // number / currency / percent
+  thousands: boolean; // Group digits with the locale's thousands separator
+  currencySymbol: string;
+  datePattern: string; // Tokens: YYYY YY MMMM MMM MM M DD D
+  locale: string; // BCP 47 tag for separators and month names, empty for the browser's
+  booleanStyle: BooleanStyle; // Hand-drawn check marks / crosses, or the text as typed
+}
+
+export type AnnotationKind = 'circle' | 'underline' | 'strike' | 'highlight' | 'arrow' | 'note';
+
+// A mark drawn over the table. It's anchored to cell ids rather than positions, so it follows
+// its cells through resizing, sorting and moved rows; marks on deleted cells aren't drawn.
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  from: string; // Cell id: the marked cell, a corner of the range, the arrow's tail or the note's anchor
+  to: string; // Cell id: the opposite corner or the arrow's head, same as from for a single cell
+  color: string;
+  text?: string; // Note text
+  offset?: Point; // Top left of a note, relative to the centre of its anchor cell
+}
+
 export interface TableConfig {
   roughness: number; // How wiggly lines are
   bowing: number; // How curved lines are
+  seed: number; // Seed for the sketch randomness, re-roll to get a new look
   stroke: string; // Color of lines
   strokeWidth: number;
+  gridLines: GridLines;
   padding: number; // Cell padding
   textColor: string;
-  fill: string; // Background fill style (solid, hachure, none)
+  background: CanvasBackground; // Canvas behind the table, part of the SVG and every export
+  backgroundColor: string; // Base colour of the canvas
+  fill: FillStyle; // Header background fill style
   fillColor: string;
+  bodyFill: FillStyle; // Background fill style of the body cells
+  bodyFillColor: string;
+  fillAngle: number; // Hatch angle in degrees
+  fillGap: number; // Spacing between hatch lines / dots
+  fillWeight: number; // Hatch line width / dot radius
   widthScale: number; // Horizontal scaling factor
+  headerRows: number; // Leading rows drawn as headers, 0 for none
+  headerColumns: number; // Leading columns drawn as row labels
+  headerFontSize: number;
+  headerBold: boolean;
+  bodyFontSize: number;
+  bodyBold: boolean;
+  headerSeparator: HeaderSeparator; // Line between the headers and the body
   customColumnWidths: Record<number, number>; // Map of colIndex -> width in px
   customRowHeights: Record<number, number>; // Map of rowIndex -> height in px
+  filters: ColumnFilter[]; // Rows filtered out stay in the data but aren't drawn
+  columnFormats: Record<number, ColumnFormat>; // Map of colIndex -> format, text columns have no entry
+  annotations: Annotation[]; // Drawn over the table in the preview and every export
+}
+
+// Fields that belong to one particular table (its layout and data) rather than to its look
+export type LayoutConfigKey =
+  | 'seed' | 'widthScale' | 'headerRows' | 'headerColumns'
+  | 'customColumnWidths' | 'customRowHeights' | 'filters' | 'columnFormats' | 'annotations';
+
+// The look of a table, what a theme or saved preset applies
+export type TableStyle = Omit<TableConfig, LayoutConfigKey>;
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  style: TableStyle;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Optional per-cell overrides; anything left undefined falls back to the table config
+export interface CellStyle {
+  textColor?: string;
+  fillColor?: string; // Background fill for this cell
+  fillStyle?: FillStyle; // Defaults to hachure when only fillColor is set
+  bold?: boolean;
+  italic?: boolean;
+  fontSize?: number;
+  align?: TextAlign;
+  borders?: Partial<Record<BorderEdge, CellBorder>>; // A merged cell's edges span all its lines
 }
 
 export interface TableCell {
@@ -17,6 +121,7 @@ export interface TableCell {
   value: string;
   rowSpan: number;
   colSpan: number;
+  style?: CellStyle;
   hidden?: boolean;
   // If hidden, these point to the merging cell
   ownerRow?: number;
@@ -25,6 +130,30 @@ export interface TableCell {
 
 export type TableData = TableCell[][];
 
+// Inclusive cell range, e.g. the editor selection
+export interface CellRange {
+  minR: number;
+  maxR: number;
+  minC: number;
+  maxC: number;
+}
+
+export interface DocumentMeta {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch ms
+  updatedAt: number;
+}
+
+export interface TableDocument extends DocumentMeta {
+  data: TableData;
+  config: TableConfig;
+}
+
+// State setter that records an undo step. Calls sharing a coalesceKey in quick succession
+// (typing, dragging a slider) collapse into a single step.
+export type HistorySetter<T> = (action: T | ((prev: T) => T), coalesceKey?: string) => void;
+
 export interface Point {
   x: number;
   y: number;
@@ -0,0 +1,191 @@
+import { Annotation, AnnotationKind, Point } from '../types';
+import { getRoughPath, Rng } from './sketchUtils';
+
+// Geometry of the annotation layer. Everything is plain paths in SVG pixels, like the canvas
+// backgrounds, so the exports draw annotations exactly as the preview does.
+
+export const ANNOTATION_KINDS: AnnotationKind[] = ['circle', 'underline', 'strike', 'highlight', 'arrow', 'note'];
+
+// What a pointer does on the preview: draw one kind of annotation, or erase
+export type AnnotationTool = AnnotationKind | 'erase';
+
+export const DEFAULT_ANNOTATION_COLOR = '#e11d48'; // Rose 600
+
+// Room around the table so circles around its outer cells aren't clipped
+export const ANNOTATION_MARGIN = 16;
+
+export const NOTE_FONT_SIZE = 16;
+export const NOTE_PADDING = 8;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AnnotationShape {
+  d: string;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const createAnnotation = (kind: AnnotationKind, from: string, to: string, color: string, text?: string, offset?: Point): Annotation => {
+  const annotation: Annotation = { id: generateId(), kind, from, to, color };
+  if (kind === 'note') {
+    annotation.text = text ?? '';
+    annotation.offset = offset ?? { x: 0, y: 0 };
+  }
+  return annotation;
+};
+
+export const unionBox = (a: Box, b: Box): Box => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+};
+
+// Smooth a polyline through its points: quadratic curves between the midpoints
+const smoothPath = (points: Point[]): string => {
+  if (points.length < 3) return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+  const parts = [`M ${points[0].x} ${points[0].y}`];
+  for (let i = 1; i < points.length - 1; i++) {
+    const mx = (points[i].x + points[i + 1].x) / 2;
+    const my = (points[i].y + points[i + 1].y) / 2;
+    parts.push(`Q ${points[i].x} ${points[i].y} ${mx} ${my}`);
+  }
+  const last = points[points.length - 1];
+  parts.push(`L ${last.x} ${last.y}`);
+  return parts.join(' ');
+};
+
+// A loop drawn in one go: it doesn't quite close, overshoots its start and wobbles a little
+const getEllipsePath = (box: Box, roughness: number, rng: Rng): string => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const rx = box.width / 2 + 8;
+  const ry = box.height / 2 + 8;
+  const start = rng() * Math.PI * 2;
+  const sweep = Math.PI * 2 + 0.3 + rng() * 0.4;
+  const spiral = (rng() - 0.5) * 0.08;
+  const wobblePhase = rng() * Math.PI * 2;
+  const wobble = 0.015 * roughness;
+  const steps = 40;
+
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const angle = start + sweep * t;
+    const scale = 1 + spiral * t + Math.sin(angle * 3 + wobblePhase) * wobble;
+    points.push({ x: cx + Math.cos(angle) * rx * scale, y: cy + Math.sin(angle) * ry * scale });
+  }
+  return smoothPath(points);
+};
+
+// Where the line from a box's centre towards `target` leaves the box, plus a small gap
+const getBoxExit = (box: Box, target: Point, gap: number): Point => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const dx = target.x - cx;
+  const dy = target.y - cy;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return { x: cx, y: cy };
+  const scale = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy)
+  );
+  return { x: cx + dx * scale + (dx / length) * gap, y: cy + dy * scale + (dy / length) * gap };
+};
+
+const getArrowShapes = (from: Box, to: Box, color: string, roughness: number, bowing: number, rng: Rng): AnnotationShape[] => {
+  const toCentre = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+  const fromCentre = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+  const tail = getBoxExit(from, toCentre, 4);
+  const head = getBoxExit(to, fromCentre, 4);
+  const length = Math.hypot(head.x - tail.x, head.y - tail.y);
+  if (length < 10) return [];
+
+  // Bend the shaft to one side; the head points along the end of the curve
+  const bend = (rng() < 0.5 ? -1 : 1) * length * (0.08 + 0.06 * Math.min(2, bowing));
+  const nx = -(head.y - tail.y) / length;
+  const ny = (head.x - tail.x) / length;
+  const control = { x: (tail.x + head.x) / 2 + nx * bend, y: (tail.y + head.y) / 2 + ny * bend };
+  const jitter = () => (rng() - 0.5) * roughness;
+  const shaft = `M ${tail.x + jitter()} ${tail.y + jitter()} Q ${control.x} ${control.y} ${head.x} ${head.y}`;
+
+  const angle = Math.atan2(head.y - control.y, head.x - control.x);
+  const barbs = [-1, 1].map(side => {
+    const barbAngle = angle + Math.PI + side * (0.45 + (rng() - 0.5) * 0.1);
+    const barbLength = 12 + rng() * 3;
+    return getRoughPath(
+      head.x, head.y,
+      head.x + Math.cos(barbAngle) * barbLength, head.y + Math.sin(barbAngle) * barbLength,
+      roughness * 0.5, 0, rng
+    );
+  });
+  return [{ d: [shaft, ...barbs].join(' '), stroke: color, strokeWidth: 2.5 }];
+};
+
+// Shapes for one annotation. `box` is the marked cells (for a note, the note itself); arrows
+// also take the box they point to.
+export const getAnnotationShapes = (
+  annotation: Annotation,
+  box: Box,
+  toBox: Box,
+  roughness: number,
+  bowing: number,
+  rng: Rng
+): AnnotationShape[] => {
+  const { color } = annotation;
+  const inset = Math.min(8, box.width / 4);
+  const x1 = box.x + inset;
+  const x2 = box.x + box.width - inset;
+
+  switch (annotation.kind) {
+    case 'circle':
+      return [{ d: getEllipsePath(box, roughness, rng), stroke: color, strokeWidth: 2.5 }];
+    case 'underline': {
+      const y = box.y + box.height * 0.8;
+      return [{ d: getRoughPath(x1, y, x2, y + (rng() - 0.5) * 3, roughness, bowing, rng), stroke: color, strokeWidth: 2.5 }];
+    }
+    case 'strike': {
+      // A slight upward slant, the way a hand crosses something out
+      const y = box.y + box.height / 2;
+      return [{ d: getRoughPath(x1, y + 2, x2, y - 2, roughness, bowing, rng), stroke: color, strokeWidth: 2.5 }];
+    }
+    case 'highlight': {
+      // One broad swipe per line of cells, about as tall as a line of text
+      const swipes = Math.max(1, Math.round(box.height / 50));
+      const band = box.height / swipes;
+      const d = Array.from({ length: swipes }).map((_, i) => {
+        const y = box.y + band * (i + 0.5);
+        return getRoughPath(x1 - 2, y + (rng() - 0.5) * 2, x2 + 2, y + (rng() - 0.5) * 2, roughness * 0.5, bowing * 0.3, rng);
+      }).join(' ');
+      return [{ d, stroke: color, strokeWidth: Math.min(24, band * 0.55), opacity: 0.35 }];
+    }
+    case 'arrow':
+      return getArrowShapes(box, toBox, color, roughness, bowing, rng);
+    case 'note': {
+      const { x, y, width, height } = box;
+      const edges = [
+        getRoughPath(x, y, x + width, y, roughness * 0.6, bowing * 0.5, rng),
+        getRoughPath(x + width, y, x + width, y + height, roughness * 0.6, bowing * 0.5, rng),
+        getRoughPath(x + width, y + height, x, y + height, roughness * 0.6, bowing * 0.5, rng),
+        getRoughPath(x, y + height, x, y, roughness * 0.6, bowing * 0.5, rng)
+      ];
+      return [
+        { d: `M ${x} ${y} H ${x + width} V ${y + height} H ${x} Z`, fill: color, opacity: 0.12 },
+        { d: edges.join(' '), stroke: color, strokeWidth: 1.5 }
+      ];
+    }
+  }
+};
@@ -0,0 +1,111 @@
+import { BorderEdge, BorderLine, CellBorder, CellRange, CellStyle, GridLines, TableCell, TableData } from '../types';
+
+// Grid line layouts and per-cell border overrides. An edge shared by two cells takes the
+// override of either; applying borders clears the other side, so the last one applied wins.
+
+export const GRID_LINES: GridLines[] = ['all', 'outer', 'horizontal', 'no-vertical', 'none'];
+export const BORDER_LINES: BorderLine[] = ['solid', 'thick', 'dashed', 'dotted', 'double', 'hidden'];
+const EDGES: BorderEdge[] = ['top', 'right', 'bottom', 'left'];
+
+// Which edges of the selection a border preset sets; inner-* are the lines between its cells
+export type BorderPreset = 'all' | 'outer' | 'inner' | 'inner-horizontal' | 'inner-vertical' | BorderEdge;
+
+const OPPOSITE: Record<BorderEdge, BorderEdge> = { top: 'bottom', right: 'left', bottom: 'top', left: 'right' };
+
+// Whether the table-wide layout draws a segment; outer segments are the table's outline
+export const isGridLineDrawn = (gridLines: GridLines, horizontal: boolean, outer: boolean): boolean => {
+  switch (gridLines) {
+    case 'outer':
+      return outer;
+    case 'horizontal':
+      return horizontal;
+    case 'no-vertical':
+      return horizontal || outer;
+    case 'none':
+      return false;
+    default:
+      return true;
+  }
+};
+
+// Override for the segment between two cells (above / below or left / right of it), if any
+export const getEdgeBorder = (
+  before: TableCell | null,
+  after: TableCell | null,
+  horizontal: boolean
+): CellBorder | undefined =>
+  before?.style?.borders?.[horizontal ? 'bottom' : 'right'] ?? after?.style?.borders?.[horizontal ? 'top' : 'left'];
+
+const withBorders = (cell: TableCell, borders: Partial<Record<BorderEdge, CellBorder>>): TableCell => {
+  const style: CellStyle = { ...cell.style, borders };
+  if (Object.keys(borders).length === 0) delete style.borders;
+  const next = { ...cell, style };
+  if (Object.keys(style).length === 0) delete next.style;
+  return next;
+};
+
+const isPresetEdge = (preset: BorderPreset, edge: BorderEdge, onBoundary: boolean): boolean => {
+  const horizontal = edge === 'top' || edge === 'bottom';
+  switch (preset) {
+    case 'all':
+      return true;
+    case 'outer':
+      return onBoundary;
+    case 'inner':
+      return !onBoundary;
+    case 'inner-horizontal':
+      return !onBoundary && horizontal;
+    case 'inner-vertical':
+      return !onBoundary && !horizontal;
+    default:
+      return onBoundary && preset === edge;
+  }
+};
+
+// Set (or with border null, remove) the preset's edges on every cell of the range. The range
+// is expected to be expanded over merges, so each cell lies completely inside or outside it.
+export const applyBorders = (data: TableData, range: CellRange, preset: BorderPreset, border: CellBorder | null): TableData => {
+  const { minR, maxR, minC, maxC } = range;
+  const updates = new Map<TableCell, Partial<Record<BorderEdge, CellBorder>>>();
+  const getBorders = (cell: TableCell) => {
+    if (!updates.has(cell)) updates.set(cell, { ...cell.style?.borders });
+    return updates.get(cell)!;
+  };
+  const ownerAt = (r: number, c: number): TableCell | null => {
+    const cell = data[r]?.[c];
+    if (!cell) return null;
+    return cell.hidden ? data[cell.ownerRow ?? r]?.[cell.ownerCol ?? c] ?? null : cell;
+  };
+
+  for (let r = minR; r <= maxR; r++) {
+    for (let c = minC; c <= maxC; c++) {
+      const cell = data[r]?.[c];
+      if (!cell || cell.hidden) continue;
+      const lastR = r + cell.rowSpan - 1;
+      const lastC = c + cell.colSpan - 1;
+      const boundary: Record<BorderEdge, boolean> = {
+        top: r === minR,
+        right: lastC === maxC,
+        bottom: lastR === maxR,
+        left: c === minC
+      };
+      const borders = getBorders(cell);
+      EDGES.forEach(edge => {
+        if (!isPresetEdge(preset, edge, boundary[edge])) return;
+        if (border) borders[edge] = { ...border };
+        else delete borders[edge];
+        if (!boundary[edge]) return;
+
+        // The cells across the range boundary give up their side of the shared edge
+        const neighbours = edge === 'top' || edge === 'bottom'
+          ? Array.from({ length: cell.colSpan }).map((_, i) => ownerAt(edge === 'top' ? r - 1 : lastR + 1, c + i))
+          : Array.from({ length: cell.rowSpan }).map((_, i) => ownerAt(r + i, edge === 'left' ? c - 1 : lastC + 1));
+        neighbours.forEach(neighbour => {
+          if (neighbour?.style?.borders?.[OPPOSITE[edge]]) delete getBorders(neighbour)[OPPOSITE[edge]];
+        });
+      });
+    }
+  }
+
+  return data.map(row => row.map(cell => (updates.has(cell) ? withBorders(cell, updates.get(cell)!) : cell)));
+};
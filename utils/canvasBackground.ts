@@ -0,0 +1,142 @@
+import { CanvasBackground, TableConfig } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { getRoughPath, Rng } from './sketchUtils';
+
+// Canvas backgrounds, drawn into the SVG as plain paths (no patterns or filters) so the SVG,
+// image and PDF exports all show exactly what the preview shows.
+
+export const CANVAS_BACKGROUNDS: CanvasBackground[] = ['none', 'color', 'paper', 'grid', 'lined', 'chalkboard'];
+
+// Base colour each background starts from when it's picked
+export const DEFAULT_BACKGROUND_COLORS: Record<CanvasBackground, string> = {
+  none: '#ffffff',
+  color: '#ffffff',
+  paper: '#fbf7ee',
+  grid: '#ffffff',
+  lined: '#fffef8',
+  chalkboard: '#2f3e35'
+};
+
+// Chalk-like ink for dark canvases
+const LIGHT_INK = { stroke: '#f1f5f9', textColor: '#f8fafc' };
+
+// Space between the table and the edge of the SVG. Without a canvas it only keeps the rough
+// lines from being clipped; a canvas gets room to show around the table.
+export const getCanvasPadding = (background: CanvasBackground): number => (background === 'none' ? 5 : 24);
+
+export interface BackgroundShape {
+  d: string;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+}
+
+const parseHexColor = (color: string): [number, number, number] | null => {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.split('').map(ch => ch + ch).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+// WCAG relative luminance, 0 (black) .. 1 (white); unreadable colours count as white
+export const getLuminance = (color: string): number => {
+  const rgb = parseHexColor(color);
+  if (!rgb) return 1;
+  const [r, g, b] = rgb.map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const isDarkBackground = (config: Pick<TableConfig, 'background' | 'backgroundColor'>): boolean =>
+  config.background !== 'none' && getLuminance(config.backgroundColor) < 0.3;
+
+// Switch the canvas and keep lines and text readable on it: dark ink on a dark canvas turns to
+// chalk, and chalk on a light canvas back to the default ink. Colours in between are a choice
+// the user made and are kept.
+export const setCanvasBackground = (config: TableConfig, background: CanvasBackground, backgroundColor: string): TableConfig => {
+  const next = { ...config, background, backgroundColor };
+  const dark = isDarkBackground(next);
+  (['stroke', 'textColor'] as const).forEach(key => {
+    const luminance = getLuminance(config[key]);
+    if (dark && luminance < 0.3) next[key] = LIGHT_INK[key];
+    if (!dark && luminance > 0.75) next[key] = DEFAULT_CONFIG[key];
+  });
+  return next;
+};
+
+const rectPath = (x: number, y: number, w: number, h: number) => `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z`;
+
+// Short strokes scattered over the area, joined into one path: paper fibres or chalk dust
+const getSpecks = (x: number, y: number, w: number, h: number, density: number, maxLength: number, rng: Rng): string => {
+  const count = Math.min(600, Math.round((w * h) / density));
+  const parts: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const px = x + rng() * w;
+    const py = y + rng() * h;
+    const angle = rng() * Math.PI;
+    const length = 1 + rng() * maxLength;
+    const ex = px + Math.cos(angle) * length;
+    const ey = py + Math.sin(angle) * length;
+    // One decimal is plenty for specks and keeps the exported SVG small
+    parts.push(`M${px.toFixed(1)} ${py.toFixed(1)}L${ex.toFixed(1)} ${ey.toFixed(1)}`);
+  }
+  return parts.join(' ');
+};
+
+const getRuledLines = (x: number, y: number, w: number, h: number, step: number, offset: number, vertical: boolean): string => {
+  const parts: string[] = [];
+  if (vertical) {
+    for (let px = x + offset; px < x + w; px += step) parts.push(`M ${px} ${y} V ${y + h}`);
+  } else {
+    for (let py = y + offset; py < y + h; py += step) parts.push(`M ${x} ${py} H ${x + w}`);
+  }
+  return parts.join(' ');
+};
+
+export const getBackgroundShapes = (
+  background: CanvasBackground,
+  color: string,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  rng: Rng
+): BackgroundShape[] => {
+  if (background === 'none') return [];
+  const shapes: BackgroundShape[] = [{ d: rectPath(x, y, w, h), fill: color }];
+
+  switch (background) {
+    case 'paper':
+      shapes.push({ d: getSpecks(x, y, w, h, 700, 4, rng), stroke: '#8b7355', strokeWidth: 0.6, opacity: 0.18 });
+      break;
+    case 'grid': {
+      const minor = [getRuledLines(x, y, w, h, 20, 20, false), getRuledLines(x, y, w, h, 20, 20, true)].join(' ');
+      const major = [getRuledLines(x, y, w, h, 100, 100, false), getRuledLines(x, y, w, h, 100, 100, true)].join(' ');
+      shapes.push({ d: minor, stroke: '#93c5fd', strokeWidth: 0.5, opacity: 0.6 });
+      shapes.push({ d: major, stroke: '#60a5fa', strokeWidth: 0.8, opacity: 0.5 });
+      break;
+    }
+    case 'lined':
+      shapes.push({ d: getRuledLines(x, y, w, h, 24, 36, false), stroke: '#93c5fd', strokeWidth: 0.8, opacity: 0.8 });
+      shapes.push({ d: `M ${x + 28} ${y} V ${y + h}`, stroke: '#f87171', strokeWidth: 1, opacity: 0.7 });
+      break;
+    case 'chalkboard': {
+      // Wide, faint eraser smudges and a layer of chalk dust
+      const smudges: string[] = [];
+      const count = Math.max(3, Math.round((w * h) / 40000));
+      for (let i = 0; i < Math.min(12, count); i++) {
+        const sx = x + rng() * w;
+        const sy = y + rng() * h;
+        const length = 60 + rng() * Math.min(w, 240);
+        smudges.push(getRoughPath(sx, sy, sx + length, sy + (rng() - 0.5) * 30, 6, 3, rng));
+      }
+      shapes.push({ d: smudges.join(' '), stroke: '#ffffff', strokeWidth: 28, opacity: 0.035 });
+      shapes.push({ d: getSpecks(x, y, w, h, 500, 2, rng), stroke: '#ffffff', strokeWidth: 0.6, opacity: 0.12 });
+      break;
+    }
+  }
+  return shapes;
+};
@@ -0,0 +1,179 @@
+import { CellRange, TableData } from '../types';
+import { parseDelimited } from './csvUtils';
+import { parseMarkdownTable } from './markdownUtils';
+import { applyMerges, createEmptyCell, getMerges } from './tableModel';
+
+// Clipboard exchange with spreadsheets. Excel and Google Sheets put both TSV text and an
+// HTML <table> on the clipboard; the HTML is preferred because it carries merges.
+
+export interface GridMerge {
+  r: number;
+  c: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface ClipboardGrid {
+  values: string[][];
+  merges: GridMerge[];
+}
+
+const LINE_BREAK_MARKER = '\uE000';
+
+// Text of an HTML cell: source whitespace collapses like the browser would, <br> becomes a newline
+const getHtmlCellText = (cell: Element): string => {
+  const clone = cell.cloneNode(true) as Element;
+  clone.querySelectorAll('br').forEach(br => br.replaceWith(LINE_BREAK_MARKER));
+  clone.querySelectorAll('p, div').forEach(block => block.append(LINE_BREAK_MARKER));
+  return (clone.textContent ?? '')
+    .replace(/\s+/g, ' ')
+    .split(LINE_BREAK_MARKER)
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n+$/, '');
+};
+
+export const parseClipboardHtml = (html: string): ClipboardGrid | null => {
+  if (typeof DOMParser === 'undefined') return null;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return null;
+
+  const values: string[][] = [];
+  const merges: GridMerge[] = [];
+  const occupied: boolean[][] = [];
+
+  Array.from(table.querySelectorAll('tr')).forEach((tr, r) => {
+    values[r] = values[r] ?? [];
+    occupied[r] = occupied[r] ?? [];
+    let c = 0;
+    Array.from(tr.children).forEach(td => {
+      if (td.tagName !== 'TD' && td.tagName !== 'TH') return;
+      // Skip columns already covered by a rowspan from a previous row
+      while (occupied[r][c]) c++;
+
+      const rowSpan = Math.max(1, parseInt(td.getAttribute('rowspan') ?? '1') || 1);
+      const colSpan = Math.max(1, parseInt(td.getAttribute('colspan') ?? '1') || 1);
+      values[r][c] = getHtmlCellText(td);
+
+      for (let dr = 0; dr < rowSpan; dr++) {
+        occupied[r + dr] = occupied[r + dr] ?? [];
+        values[r + dr] = values[r + dr] ?? [];
+        for (let dc = 0; dc < colSpan; dc++) {
+          occupied[r + dr][c + dc] = true;
+          if (dr > 0 || dc > 0) values[r + dr][c + dc] = '';
+        }
+      }
+      if (rowSpan > 1 || colSpan > 1) merges.push({ r, c, rowSpan, colSpan });
+      c += colSpan;
+    });
+  });
+
+  return normaliseGrid({ values, merges });
+};
+
+export const parseClipboardText = (text: string): ClipboardGrid => {
+  const values = parseDelimited(text, '\t').map(row => row.map(v => v.replace(/\r\n?/g, '\n')));
+  return normaliseGrid({ values, merges: [] });
+};
+
+// Pad ragged rows so the grid is rectangular
+const normaliseGrid = (grid: ClipboardGrid): ClipboardGrid => {
+  const colCount = Math.max(0, ...grid.values.map(row => row?.length ?? 0));
+  const values = grid.values.map(row => Array.from({ length: colCount }).map((_, c) => row?.[c] ?? ''));
+  return { values, merges: grid.merges };
+};
+
+// Multi-cell content is an HTML table, tab separated text or a Markdown pipe table;
+// anything else is a plain paste into one cell
+export const readClipboardGrid = (clipboard: DataTransfer): ClipboardGrid | null => {
+  const html = clipboard.getData('text/html');
+  if (html && /<table/i.test(html)) {
+    const grid = parseClipboardHtml(html);
+    if (grid && grid.values.length > 0) return grid;
+  }
+  const text = clipboard.getData('text/plain');
+  if (text && text.includes('\t')) return parseClipboardText(text);
+  const markdown = text ? parseMarkdownTable(text) : null;
+  if (markdown) return normaliseGrid({ values: markdown.rows, merges: [] });
+  return null;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const quoteTsvField = (value: string) => (/[\t\n"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const gridToTsv = (grid: ClipboardGrid): string =>
+  grid.values.map(row => row.map(quoteTsvField).join('\t')).join('\n');
+
+export const gridToHtml = (grid: ClipboardGrid): string => {
+  const covered = new Set<string>();
+  const mergeAt = new Map<string, GridMerge>();
+  grid.merges.forEach(m => {
+    mergeAt.set(`${m.r}:${m.c}`, m);
+    for (let r = m.r; r < m.r + m.rowSpan; r++) {
+      for (let c = m.c; c < m.c + m.colSpan; c++) {
+        if (r !== m.r || c !== m.c) covered.add(`${r}:${c}`);
+      }
+    }
+  });
+
+  const rows = grid.values.map((row, r) => {
+    const cells = row.map((value, c) => {
+      if (covered.has(`${r}:${c}`)) return '';
+      const merge = mergeAt.get(`${r}:${c}`);
+      const spans = merge
+        ? `${merge.rowSpan > 1 ? ` rowspan="${merge.rowSpan}"` : ''}${merge.colSpan > 1 ? ` colspan="${merge.colSpan}"` : ''}`
+        : '';
+      return `<td${spans}>${escapeHtml(value).replace(/\n/g, '<br>')}</td>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+  return `<table>${rows.join('')}</table>`;
+};
+
+// Values and merges inside a range; merges are clipped to the range
+export const getRangeGrid = (data: TableData, range: CellRange): ClipboardGrid => {
+  const values: string[][] = [];
+  const merges: GridMerge[] = [];
+  for (let r = range.minR; r <= range.maxR; r++) {
+    const row: string[] = [];
+    for (let c = range.minC; c <= range.maxC; c++) {
+      const cell = data[r][c];
+      row.push(cell.hidden ? '' : cell.value);
+      if (!cell.hidden && (cell.rowSpan > 1 || cell.colSpan > 1)) {
+        const rowSpan = Math.min(cell.rowSpan, range.maxR - r + 1);
+        const colSpan = Math.min(cell.colSpan, range.maxC - c + 1);
+        if (rowSpan > 1 || colSpan > 1) merges.push({ r: r - range.minR, c: c - range.minC, rowSpan, colSpan });
+      }
+    }
+    values.push(row);
+  }
+  return { values, merges };
+};
+
+// Write a grid into the table at (startR, startC), growing rows/columns as needed.
+// Existing merges overlapping the target area are dissolved before the grid's own merges are recreated.
+export const pasteGrid = (data: TableData, grid: ClipboardGrid, startR: number, startC: number): TableData => {
+  const gridRows = grid.values.length;
+  const gridCols = grid.values[0]?.length ?? 0;
+  if (gridRows === 0 || gridCols === 0) return data;
+
+  const rowCount = Math.max(data.length, startR + gridRows);
+  const colCount = Math.max(data[0]?.length ?? 0, startC + gridCols);
+  const newData: TableData = Array.from({ length: rowCount }).map((_, r) =>
+    Array.from({ length: colCount }).map((_, c) => data[r]?.[c] ?? createEmptyCell())
+  );
+
+  const target: CellRange = { minR: startR, maxR: startR + gridRows - 1, minC: startC, maxC: startC + gridCols - 1 };
+  const merges = getMerges(data).filter(m =>
+    m.r > target.maxR || m.r + m.rowSpan - 1 < target.minR || m.c > target.maxC || m.c + m.colSpan - 1 < target.minC
+  );
+  grid.merges.forEach(m => merges.push({ ...m, r: startR + m.r, c: startC + m.c }));
+
+  grid.values.forEach((row, r) => row.forEach((value, c) => {
+    newData[startR + r][startC + c] = { ...newData[startR + r][startC + c], value };
+  }));
+  return applyMerges(newData, merges);
+};
@@ -0,0 +1,147 @@
+import { TableData } from '../types';
+
+// CSV / TSV conversion for TableData. Parsing follows RFC 4180: quoted fields may contain
+// delimiters, doubled quotes and line breaks.
+
+export type MergeExportMode = 'owner' | 'fill';
+
+export interface DelimitedExportOptions {
+  delimiter: string;
+  // owner: merged value in the top-left cell, blanks for the hidden cells
+  // fill: every cell of a merged region repeats the merged value
+  mergeMode: MergeExportMode;
+}
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Decode file bytes, honouring byte order marks. Without a BOM we try strict UTF-8 and fall
+// back to GB18030, which is what Excel on Chinese Windows writes for "CSV".
+export const decodeTextFile = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gb18030').decode(bytes);
+  }
+};
+
+// Pick the candidate delimiter that occurs most often (outside quotes) in the first line
+export const detectDelimiter = (text: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+  }
+  let best = ',';
+  let bestCount = 0;
+  counts.forEach((count, delimiter) => {
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const source = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (source.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length;
+      continue;
+    } else if (ch === '\r' || ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  // Last record, unless the text ended with a line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Normalise embedded CRLF so cells use the same '\n' line breaks as the editor
+const normaliseValue = (value: string) => value.replace(/\r\n?/g, '\n');
+
+export const rowsToTableData = (rows: string[][]): TableData => {
+  const colCount = Math.max(0, ...rows.map(r => r.length));
+  if (rows.length === 0 || colCount === 0) return [];
+  return rows.map(row =>
+    Array.from({ length: colCount }).map((_, c) => ({
+      id: generateId(),
+      value: normaliseValue(row[c] ?? ''),
+      rowSpan: 1,
+      colSpan: 1
+    }))
+  );
+};
+
+export const tableDataToRows = (data: TableData, mergeMode: MergeExportMode): string[][] =>
+  data.map((row, r) =>
+    row.map((cell, c) => {
+      if (!cell.hidden) return cell.value;
+      if (mergeMode === 'owner') return '';
+      return data[cell.ownerRow ?? r]?.[cell.ownerCol ?? c]?.value ?? '';
+    })
+  );
+
+const quoteField = (value: string, delimiter: string): string => {
+  const needsQuotes = value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim();
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const exportDelimited = (data: TableData, options: DelimitedExportOptions): string =>
+  tableDataToRows(data, options.mergeMode)
+    .map(row => row.map(value => quoteField(value, options.delimiter)).join(options.delimiter))
+    .join('\r\n');
+
+export const importDelimited = (text: string, delimiter?: string): TableData =>
+  rowsToTableData(parseDelimited(text, delimiter || detectDelimiter(text)));
@@ -0,0 +1,244 @@
+import {
+  Annotation, AnnotationKind, BorderEdge, BorderLine, CellBorder, CellStyle, ColumnFilter, ColumnFormat, ColumnType, FillStyle, FilterOperator, HeaderSeparator, TableCell, TableConfig, TableData
+} from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { repairMerges } from './tableModel';
+import { FILTER_OPERATORS } from './sortFilter';
+import { COLUMN_TYPES, createColumnFormat } from './valueFormat';
+import { CANVAS_BACKGROUNDS } from './canvasBackground';
+import { BORDER_LINES, GRID_LINES } from './borders';
+import { ANNOTATION_KINDS, DEFAULT_ANNOTATION_COLOR } from './annotations';
+
+// Validation for anything read back from storage. Saved JSON is never trusted: fields with the
+// wrong type fall back to defaults, broken cells are rebuilt and merges are re-derived from the
+// owners' spans. Only input that can't be read as a table at all is rejected (null).
+// Each fix-up is reported to the optional issues list so callers can tell the user.
+
+const FILL_STYLES: FillStyle[] = ['none', 'solid', 'hachure', 'cross-hatch', 'zigzag', 'dots'];
+const HEADER_SEPARATORS: HeaderSeparator[] = ['single', 'thick', 'double'];
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const repairSizeMap = (value: unknown): Record<number, number> => {
+  if (!isRecord(value)) return {};
+  const result: Record<number, number> = {};
+  Object.entries(value).forEach(([key, size]) => {
+    const index = parseInt(key);
+    if (Number.isInteger(index) && index >= 0 && isFiniteNumber(size) && size > 0) result[index] = size;
+  });
+  return result;
+};
+
+const repairFilters = (value: unknown, issues: string[]): ColumnFilter[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push('config.filters is not a list');
+    return [];
+  }
+  return value.flatMap(raw => {
+    const valid = isRecord(raw) && Number.isInteger(raw.col) && (raw.col as number) >= 0
+      && FILTER_OPERATORS.includes(raw.operator as FilterOperator) && typeof raw.value === 'string';
+    if (!valid) {
+      issues.push('config.filters has an invalid filter');
+      return [];
+    }
+    return [{ col: raw.col as number, operator: raw.operator as FilterOperator, value: raw.value as string }];
+  });
+};
+
+// Format options missing from a saved format take the type's defaults
+const repairColumnFormats = (value: unknown, issues: string[]): Record<number, ColumnFormat> => {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    issues.push('config.columnFormats is not an object');
+    return {};
+  }
+  const result: Record<number, ColumnFormat> = {};
+  Object.entries(value).forEach(([key, raw]) => {
+    const index = parseInt(key);
+    if (!Number.isInteger(index) || index < 0 || !isRecord(raw) || !COLUMN_TYPES.includes(raw.type as ColumnType)) {
+      issues.push(`config.columnFormats.${key} is invalid`);
+      return;
+    }
+    const format = createColumnFormat(raw.type as ColumnType);
+    if (isFiniteNumber(raw.decimals) && raw.decimals >= 0) format.decimals = Math.min(10, Math.round(raw.decimals));
+    if (typeof raw.thousands === 'boolean') format.thousands = raw.thousands;
+    if (typeof raw.currencySymbol === 'string') format.currencySymbol = raw.currencySymbol;
+    if (typeof raw.datePattern === 'string') format.datePattern = raw.datePattern;
+    if (typeof raw.locale === 'string') format.locale = raw.locale;
+    if (raw.booleanStyle === 'marks' || raw.booleanStyle === 'text') format.booleanStyle = raw.booleanStyle;
+    result[index] = format;
+  });
+  return result;
+};
+
+// Anchors are only checked for type: an annotation on a cell that's gone is simply not drawn
+const repairAnnotations = (value: unknown, issues: string[]): Annotation[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push('config.annotations is not a list');
+    return [];
+  }
+  const usedIds = new Set<string>();
+  return value.flatMap(raw => {
+    const valid = isRecord(raw) && ANNOTATION_KINDS.includes(raw.kind as AnnotationKind) && typeof raw.from === 'string'
+      && (raw.kind !== 'note' || typeof raw.text === 'string');
+    if (!valid) {
+      issues.push('config.annotations has an invalid annotation');
+      return [];
+    }
+    let id = typeof raw.id === 'string' && raw.id ? raw.id : '';
+    if (!id || usedIds.has(id)) {
+      issues.push(id ? `duplicate annotation id "${id}"` : 'annotation without id');
+      id = generateId();
+    }
+    usedIds.add(id);
+
+    const from = raw.from as string;
+    const annotation: Annotation = {
+      id,
+      kind: raw.kind as AnnotationKind,
+      from,
+      to: typeof raw.to === 'string' ? raw.to : from,
+      color: typeof raw.color === 'string' ? raw.color : DEFAULT_ANNOTATION_COLOR
+    };
+    if (annotation.kind === 'note') {
+      const offset = isRecord(raw.offset) && isFiniteNumber(raw.offset.x) && isFiniteNumber(raw.offset.y) ? raw.offset : null;
+      annotation.text = raw.text as string;
+      annotation.offset = offset ? { x: offset.x as number, y: offset.y as number } : { x: 0, y: 0 };
+    }
+    return [annotation];
+  });
+};
+
+// Missing fields silently take their defaults (older saves); present fields of the wrong type are repairs
+export const repairConfig = (raw: unknown, issues: string[] = []): TableConfig => {
+  if (raw !== undefined && !isRecord(raw)) issues.push('config is not an object');
+  const source = isRecord(raw) ? raw : {};
+  const config: TableConfig = { ...DEFAULT_CONFIG };
+
+  (Object.keys(DEFAULT_CONFIG) as (keyof TableConfig)[]).forEach(key => {
+    const fallback = DEFAULT_CONFIG[key];
+    const value = source[key];
+    if (value === undefined || typeof fallback === 'object') return;
+    if ((typeof fallback === 'number' && isFiniteNumber(value)) || (typeof fallback === 'string' && typeof value === 'string')
+      || (typeof fallback === 'boolean' && typeof value === 'boolean')) {
+      (config as unknown as Record<string, unknown>)[key] = value;
+    } else {
+      issues.push(`config.${key} has an invalid value`);
+    }
+  });
+
+  if (!FILL_STYLES.includes(config.fill)) {
+    issues.push(`config.fill "${config.fill}" is unknown`);
+    config.fill = DEFAULT_CONFIG.fill;
+  }
+  if (!FILL_STYLES.includes(config.bodyFill)) {
+    issues.push(`config.bodyFill "${config.bodyFill}" is unknown`);
+    config.bodyFill = DEFAULT_CONFIG.bodyFill;
+  }
+  if (!CANVAS_BACKGROUNDS.includes(config.background)) {
+    issues.push(`config.background "${config.background}" is unknown`);
+    config.background = DEFAULT_CONFIG.background;
+  }
+  if (!GRID_LINES.includes(config.gridLines)) {
+    issues.push(`config.gridLines "${config.gridLines}" is unknown`);
+    config.gridLines = DEFAULT_CONFIG.gridLines;
+  }
+  if (!HEADER_SEPARATORS.includes(config.headerSeparator)) {
+    issues.push(`config.headerSeparator "${config.headerSeparator}" is unknown`);
+    config.headerSeparator = DEFAULT_CONFIG.headerSeparator;
+  }
+  config.headerRows = Math.max(0, Math.round(config.headerRows));
+  config.headerColumns = Math.max(0, Math.round(config.headerColumns));
+  config.customColumnWidths = repairSizeMap(source.customColumnWidths);
+  config.customRowHeights = repairSizeMap(source.customRowHeights);
+  config.filters = repairFilters(source.filters, issues);
+  config.columnFormats = repairColumnFormats(source.columnFormats, issues);
+  config.annotations = repairAnnotations(source.annotations, issues);
+  return config;
+};
+
+const repairBorders = (raw: unknown): Partial<Record<BorderEdge, CellBorder>> | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const borders: Partial<Record<BorderEdge, CellBorder>> = {};
+  (['top', 'right', 'bottom', 'left'] as BorderEdge[]).forEach(edge => {
+    const border = raw[edge];
+    if (!isRecord(border) || !BORDER_LINES.includes(border.line as BorderLine)) return;
+    const line = border.line as BorderLine;
+    borders[edge] = typeof border.color === 'string' ? { line, color: border.color } : { line };
+  });
+  return Object.keys(borders).length > 0 ? borders : undefined;
+};
+
+const repairCellStyle = (raw: unknown): CellStyle | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const style: CellStyle = {};
+  if (typeof raw.textColor === 'string') style.textColor = raw.textColor;
+  if (typeof raw.fillColor === 'string') style.fillColor = raw.fillColor;
+  if (typeof raw.fillStyle === 'string' && FILL_STYLES.includes(raw.fillStyle as FillStyle)) style.fillStyle = raw.fillStyle as FillStyle;
+  if (typeof raw.bold === 'boolean') style.bold = raw.bold;
+  if (typeof raw.italic === 'boolean') style.italic = raw.italic;
+  if (isFiniteNumber(raw.fontSize) && raw.fontSize > 0) style.fontSize = raw.fontSize;
+  if (raw.align === 'left' || raw.align === 'center' || raw.align === 'right') style.align = raw.align;
+  const borders = repairBorders(raw.borders);
+  if (borders) style.borders = borders;
+  return Object.keys(style).length > 0 ? style : undefined;
+};
+
+const isSpan = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+const repairCell = (raw: unknown, usedIds: Set<string>, issues: string[]): TableCell => {
+  // Tolerate bare values (e.g. a 2D array of strings)
+  if (!isRecord(raw)) issues.push('cell is not an object');
+  const source = isRecord(raw) ? raw : { value: raw };
+
+  let id = typeof source.id === 'string' && source.id ? source.id : '';
+  if (!id || usedIds.has(id)) {
+    if (isRecord(raw)) issues.push(id ? `duplicate cell id "${id}"` : 'cell without id');
+    id = generateId();
+  }
+  usedIds.add(id);
+
+  const value = source.value;
+  if (isRecord(raw) && typeof value !== 'string') issues.push(`cell ${id} has a non-text value`);
+  if ((source.rowSpan !== undefined && !isSpan(source.rowSpan)) || (source.colSpan !== undefined && !isSpan(source.colSpan))) {
+    issues.push(`cell ${id} has an invalid span`);
+  }
+
+  const cell: TableCell = {
+    id,
+    value: typeof value === 'string' ? value : (value === null || value === undefined ? '' : String(value)),
+    rowSpan: isSpan(source.rowSpan) ? source.rowSpan : 1,
+    colSpan: isSpan(source.colSpan) ? source.colSpan : 1
+  };
+  const style = repairCellStyle(source.style);
+  if (style) cell.style = style;
+  // Kept only for comparison, repairMerges derives the real values
+  if (source.hidden === true) {
+    cell.hidden = true;
+    if (typeof source.ownerRow === 'number') cell.ownerRow = source.ownerRow;
+    if (typeof source.ownerCol === 'number') cell.ownerCol = source.ownerCol;
+  }
+  return cell;
+};
+
+export const repairTableData = (raw: unknown, issues: string[] = []): TableData | null => {
+  if (!Array.isArray(raw) || !raw.every(Array.isArray)) return null;
+  const rows = raw as unknown[][];
+  const colCount = Math.max(0, ...rows.map(row => row.length));
+  if (colCount === 0) return [];
+  if (rows.some(row => row.length !== colCount)) issues.push('rows have different lengths');
+
+  // Padding cells get an id of their own: the row length issue above already covers them
+  const usedIds = new Set<string>();
+  const data: TableData = rows.map(row =>
+    Array.from({ length: colCount }).map((_, c) => repairCell(c < row.length ? row[c] : { id: generateId(), value: '' }, usedIds, issues))
+  );
+  return repairMerges(data, issues);
+};
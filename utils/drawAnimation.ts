@@ -0,0 +1,188 @@
+// "Drawing itself" animation of the table SVG. While rendering, the table tags what it draws
+// with a data-draw attribute (phase, kind and grid position); the animation is worked out
+// from those tags on a serialized SVG, so the preview, the animated SVG export and the PNG
+// frames all play the same schedule. Grid strokes are revealed first (stroke-dashoffset over
+// a normalized pathLength), then fills and text fade in line by line, then annotations.
+
+export type AnimationOrder = 'row' | 'column' | 'outer-first';
+export type AnimationEasing = 'linear' | 'ease' | 'ease-in-out' | 'ease-out';
+
+export interface AnimationOptions {
+  duration: number; // Seconds for the whole table
+  order: AnimationOrder;
+  easing: AnimationEasing; // Of each stroke and fade
+  fps: number; // PNG frames per second
+}
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+  duration: 3,
+  order: 'row',
+  easing: 'ease-out',
+  fps: 12
+};
+
+export type DrawPhase = 'grid' | 'content' | 'annotation';
+export type DrawKind = 'stroke' | 'fade';
+
+// Tag for an element of the table; row / col place it in the drawing order
+export const drawAttrs = (phase: DrawPhase, kind: DrawKind, row: number, col: number) => ({
+  'data-draw': `${phase} ${kind} ${row} ${col}`
+});
+
+interface DrawStep {
+  element: SVGElement;
+  kind: DrawKind;
+  start: number; // Seconds
+  duration: number;
+}
+
+interface DrawItem {
+  element: SVGElement;
+  phase: DrawPhase;
+  kind: DrawKind;
+  row: number;
+  col: number;
+}
+
+const SVG_MIME = 'image/svg+xml';
+
+// Share of the duration each phase gets; without annotations the content takes their share
+const PHASE_SHARES: Record<DrawPhase, number> = { grid: 0.55, content: 0.3, annotation: 0.15 };
+
+// CSS timing functions as cubic Béziers, so frames ease exactly like the CSS animation
+const EASINGS: Record<AnimationEasing, [number, number, number, number]> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+  'ease-out': [0, 0, 0.58, 1]
+};
+
+const cubicBezier = ([x1, y1, x2, y2]: [number, number, number, number]) => {
+  const coordinate = (t: number, a: number, b: number) => 3 * a * t * (1 - t) ** 2 + 3 * b * t ** 2 * (1 - t) + t ** 3;
+  return (x: number): number => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    // x(t) is monotonic for CSS timing functions, so bisection finds t
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < 30; i++) {
+      const mid = (lo + hi) / 2;
+      if (coordinate(mid, x1, x2) < x) lo = mid;
+      else hi = mid;
+    }
+    return coordinate((lo + hi) / 2, y1, y2);
+  };
+};
+
+const readItems = (svg: Element): DrawItem[] =>
+  Array.from(svg.querySelectorAll<SVGElement>('[data-draw]')).flatMap(element => {
+    const [phase, kind, row, col] = (element.getAttribute('data-draw') ?? '').split(' ');
+    if (!(phase in PHASE_SHARES) || (kind !== 'stroke' && kind !== 'fade')) return [];
+    return [{ element, phase: phase as DrawPhase, kind, row: Number(row) || 0, col: Number(col) || 0 }];
+  });
+
+// Spread groups of items over a time window in order; neighbouring groups overlap a little
+// so the pen never seems to stop
+const stagger = (items: DrawItem[], keyOf: (item: DrawItem) => number[], start: number, length: number): DrawStep[] => {
+  const keys = Array.from(new Set(items.map(item => keyOf(item).join(','))))
+    .map(key => key.split(',').map(Number))
+    .sort((a, b) => a.reduce((result, v, i) => result || v - b[i], 0));
+  const ranks = new Map(keys.map((key, i) => [key.join(','), i]));
+  const count = keys.length;
+  const duration = Math.min(length, (length * 3) / (count + 2));
+  const step = count > 1 ? (length - duration) / (count - 1) : 0;
+  return items.map(item => ({
+    element: item.element,
+    kind: item.kind,
+    start: start + ranks.get(keyOf(item).join(','))! * step,
+    duration
+  }));
+};
+
+const getSchedule = (svg: Element, options: AnimationOptions): DrawStep[] => {
+  const items = readItems(svg);
+  const byPhase = (phase: DrawPhase) => items.filter(item => item.phase === phase);
+  const grid = byPhase('grid');
+  const content = byPhase('content');
+  const annotations = byPhase('annotation');
+
+  const maxRow = Math.max(0, ...grid.map(item => item.row), ...content.map(item => item.row));
+  const maxCol = Math.max(0, ...grid.map(item => item.col), ...content.map(item => item.col));
+  const ring = (item: DrawItem) => Math.min(item.row, maxRow - item.row, item.col, maxCol - item.col);
+  const strokeKey = (item: DrawItem) =>
+    options.order === 'column' ? [item.col, item.row] : options.order === 'outer-first' ? [ring(item), item.row, item.col] : [item.row, item.col];
+  // Fills and text come in a whole line (or ring) at a time
+  const lineKey = (item: DrawItem) =>
+    options.order === 'column' ? [item.col] : options.order === 'outer-first' ? [ring(item)] : [item.row];
+
+  const duration = Math.max(0.1, options.duration);
+  const contentShare = PHASE_SHARES.content + (annotations.length > 0 ? 0 : PHASE_SHARES.annotation);
+  const gridLength = duration * PHASE_SHARES.grid;
+  const contentLength = duration * contentShare;
+  return [
+    ...stagger(grid, strokeKey, 0, gridLength),
+    ...stagger(content, lineKey, gridLength, contentLength),
+    ...stagger(annotations, item => [item.row], gridLength + contentLength, duration - gridLength - contentLength)
+  ];
+};
+
+const parseSvg = (svgData: string): SVGSVGElement => {
+  const doc = new DOMParser().parseFromString(svgData, SVG_MIME);
+  if (doc.querySelector('parsererror')) throw new Error('Could not parse the SVG');
+  return doc.documentElement as unknown as SVGSVGElement;
+};
+
+// One dash as long as the path; the gap is longer so no dash (or round cap) starts inside it
+const prepareStroke = (element: SVGElement) => {
+  element.setAttribute('pathLength', '1');
+  element.setAttribute('stroke-dasharray', '1 2');
+};
+
+const ANIMATION_CSS = `
+@keyframes draw-stroke { from { stroke-dashoffset: 1; } to { stroke-dashoffset: 0; } }
+@keyframes draw-fade { from { opacity: 0; } }
+`;
+
+// A self-contained SVG that draws itself once when opened. The fade keyframes only give a
+// start value, so every element ends at its own opacity.
+export const animateSvg = (svgData: string, options: AnimationOptions): string => {
+  const svg = parseSvg(svgData);
+  const [x1, y1, x2, y2] = EASINGS[options.easing];
+  const timing = `cubic-bezier(${x1}, ${y1}, ${x2}, ${y2})`;
+
+  getSchedule(svg, options).forEach(({ element, kind, start, duration }) => {
+    if (kind === 'stroke') prepareStroke(element);
+    element.style.animation = `draw-${kind} ${duration.toFixed(3)}s ${timing} ${start.toFixed(3)}s both`;
+  });
+
+  const style = svg.ownerDocument.createElementNS('http://www.w3.org/2000/svg', 'style');
+  style.textContent = ANIMATION_CSS;
+  svg.insertBefore(style, svg.firstChild);
+  return new XMLSerializer().serializeToString(svg);
+};
+
+// Still of the animation at `time` seconds, for rendering frames
+export const getFrameSvg = (svgData: string, options: AnimationOptions, time: number): string => {
+  const svg = parseSvg(svgData);
+  const ease = cubicBezier(EASINGS[options.easing]);
+
+  getSchedule(svg, options).forEach(({ element, kind, start, duration }) => {
+    const progress = ease(Math.min(1, Math.max(0, (time - start) / duration)));
+    if (progress >= 1) return;
+    if (kind === 'stroke') {
+      prepareStroke(element);
+      element.setAttribute('stroke-dashoffset', String(1 - progress));
+    } else {
+      const opacity = parseFloat(element.getAttribute('opacity') ?? '1');
+      element.setAttribute('opacity', String((Number.isFinite(opacity) ? opacity : 1) * progress));
+    }
+  });
+  return new XMLSerializer().serializeToString(svg);
+};
+
+// Frame times from the first stroke to the finished table
+export const getFrameTimes = (options: AnimationOptions): number[] => {
+  const duration = Math.max(0.1, options.duration);
+  const count = Math.max(1, Math.round(duration * Math.max(1, options.fps)));
+  return Array.from({ length: count + 1 }).map((_, i) => (duration * i) / count);
+};
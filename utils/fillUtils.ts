@@ -0,0 +1,142 @@
+import { FillStyle, Point } from '../types';
+import { getRoughPath, Rng } from './sketchUtils';
+
+export interface FillOptions {
+  angle: number; // Hatch angle in degrees, measured from the horizontal
+  gap: number; // Distance between hatch lines / dots in px
+  weight: number; // Stroke width of hatch lines, radius of dots
+  roughness: number;
+  bowing: number;
+}
+
+// A single SVG path of a fill: either stroked (hatch lines) or filled (dots, solid)
+export interface FillShape {
+  d: string;
+  filled: boolean;
+}
+
+export const rectPolygon = (x: number, y: number, w: number, h: number): Point[] => [
+  { x, y },
+  { x: x + w, y },
+  { x: x + w, y: y + h },
+  { x, y: y + h }
+];
+
+const rotate = (p: Point, rad: number): Point => ({
+  x: p.x * Math.cos(rad) - p.y * Math.sin(rad),
+  y: p.x * Math.sin(rad) + p.y * Math.cos(rad)
+});
+
+const isInside = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Scanline the polygon at the given angle: every line is clipped to the polygon edges,
+// so hatching never leaves the cell shape.
+export const getHatchSegments = (polygon: Point[], angle: number, gap: number): [Point, Point][] => {
+  if (polygon.length < 3) return [];
+  const rad = angle * Math.PI / 180;
+  const rotated = polygon.map(p => rotate(p, -rad));
+  const minY = Math.min(...rotated.map(p => p.y));
+  const maxY = Math.max(...rotated.map(p => p.y));
+  const step = Math.max(1, gap);
+  const segments: [Point, Point][] = [];
+
+  for (let y = minY + step / 2; y < maxY; y += step) {
+    const xs: number[] = [];
+    for (let i = 0; i < rotated.length; i++) {
+      const a = rotated[i];
+      const b = rotated[(i + 1) % rotated.length];
+      if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+        xs.push(a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y));
+      }
+    }
+    xs.sort((m, n) => m - n);
+    for (let i = 0; i + 1 < xs.length; i += 2) {
+      segments.push([rotate({ x: xs[i], y }, rad), rotate({ x: xs[i + 1], y }, rad)]);
+    }
+  }
+  return segments;
+};
+
+const hachure = (polygon: Point[], angle: number, options: FillOptions, rng: Rng): FillShape[] =>
+  getHatchSegments(polygon, angle, options.gap).map(([a, b]) => ({
+    d: getRoughPath(a.x, a.y, b.x, b.y, options.roughness, options.bowing, rng),
+    filled: false
+  }));
+
+// Zigzag runs back and forth across the shape, alternating between the ends of successive hatch lines
+const zigzag = (polygon: Point[], options: FillOptions, rng: Rng): FillShape[] => {
+  const points = getHatchSegments(polygon, options.angle, options.gap).map(([a, b], i) => (i % 2 === 0 ? a : b));
+  const shapes: FillShape[] = [];
+  for (let i = 0; i + 1 < points.length; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    shapes.push({ d: getRoughPath(a.x, a.y, b.x, b.y, options.roughness, options.bowing, rng), filled: false });
+  }
+  return shapes;
+};
+
+const dots = (polygon: Point[], options: FillOptions, rng: Rng): FillShape[] => {
+  const rad = options.angle * Math.PI / 180;
+  const rotated = polygon.map(p => rotate(p, -rad));
+  const minX = Math.min(...rotated.map(p => p.x));
+  const maxX = Math.max(...rotated.map(p => p.x));
+  const minY = Math.min(...rotated.map(p => p.y));
+  const maxY = Math.max(...rotated.map(p => p.y));
+  const step = Math.max(2, options.gap);
+  const radius = Math.max(0.5, options.weight);
+  const shapes: FillShape[] = [];
+
+  for (let y = minY + step / 2; y < maxY; y += step) {
+    for (let x = minX + step / 2; x < maxX; x += step) {
+      const base = rotate({ x, y }, rad);
+      const cx = base.x + (rng() - 0.5) * options.roughness;
+      const cy = base.y + (rng() - 0.5) * options.roughness;
+      if (!isInside({ x: cx, y: cy }, polygon)) continue;
+      const r = radius * (0.8 + rng() * 0.4);
+      shapes.push({
+        d: `M ${cx - r} ${cy} a ${r} ${r} 0 1 0 ${r * 2} 0 a ${r} ${r} 0 1 0 ${-r * 2} 0`,
+        filled: true
+      });
+    }
+  }
+  return shapes;
+};
+
+// Solid fill with slightly displaced corners so it doesn't look machine-cut
+const solid = (polygon: Point[], options: FillOptions, rng: Rng): FillShape[] => {
+  const jitter = () => (rng() - 0.5) * options.roughness;
+  const d = polygon
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x + jitter()} ${p.y + jitter()}`)
+    .join(' ');
+  return [{ d: `${d} Z`, filled: true }];
+};
+
+export const getFillShapes = (polygon: Point[], style: FillStyle, options: FillOptions, rng: Rng): FillShape[] => {
+  switch (style) {
+    case 'solid':
+      return solid(polygon, options, rng);
+    case 'hachure':
+      return hachure(polygon, options.angle, options, rng);
+    case 'cross-hatch':
+      return [
+        ...hachure(polygon, options.angle, options, rng),
+        ...hachure(polygon, options.angle + 90, options, rng)
+      ];
+    case 'zigzag':
+      return zigzag(polygon, options, rng);
+    case 'dots':
+      return dots(polygon, options, rng);
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,504 @@
+import { TableData } from '../types';
+import { stripMarkup } from './richText';
+import { parseNumber } from './sortFilter';
+
+// Spreadsheet-style formulas. A cell whose value starts with "=" is evaluated: arithmetic,
+// comparisons, "&" concatenation, A1 references (the column letters the editor shows, rows
+// counted from 1, "$" allowed), ranges and a few functions. The stored value keeps the formula;
+// evaluateTable computes what to display.
+//
+// Errors show as #REF! (reference outside the table), #DIV/0!, #CYCLE! (the cell depends on
+// itself) and #ERR (anything else: syntax, unknown function, text used as a number).
+
+export type FormulaErrorCode = '#REF!' | '#DIV/0!' | '#CYCLE!' | '#ERR';
+
+class FormulaError {
+  constructor(public code: FormulaErrorCode) {}
+}
+
+type Scalar = number | string | boolean | FormulaError;
+// Ranges only exist as function arguments
+type Value = Scalar | { range: Scalar[] };
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: FormulaErrorCode }
+  | { type: 'ref'; r: number; c: number }
+  | { type: 'range'; r1: number; c1: number; r2: number; c2: number }
+  | { type: 'unary'; op: string; arg: Node }
+  | { type: 'percent'; arg: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node }
+  | { type: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'ref' | 'name' | 'error' | 'op' | 'paren' | 'comma' | 'colon';
+  text: string;
+  start: number;
+  end: number;
+}
+
+const REF_PATTERN = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)/;
+
+export const isFormula = (value: string) => value.startsWith('=') && value.length > 1;
+
+// A, B, ... Z, AA, AB, ...
+export const columnName = (index: number): string => {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+};
+
+const columnIndex = (name: string): number =>
+  name.toUpperCase().split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    const rest = source.slice(i);
+    let match: RegExpMatchArray | null;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if ((match = rest.match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i))) {
+      tokens.push({ type: 'number', text: match[0], start: i, end: i + match[0].length });
+    } else if (ch === '"') {
+      // Strings use "" for a literal quote
+      let j = i + 1;
+      while (j < source.length && !(source[j] === '"' && source[j + 1] !== '"')) j += source[j] === '"' ? 2 : 1;
+      if (j >= source.length) throw new FormulaError('#ERR');
+      tokens.push({ type: 'string', text: source.slice(i, j + 1), start: i, end: j + 1 });
+    } else if ((match = rest.match(/^#REF!/i))) {
+      tokens.push({ type: 'error', text: match[0], start: i, end: i + match[0].length });
+    } else if ((match = rest.match(REF_PATTERN)) && !/^[A-Za-z0-9_(]/.test(rest.slice(match[0].length))) {
+      tokens.push({ type: 'ref', text: match[0], start: i, end: i + match[0].length });
+    } else if ((match = rest.match(/^[A-Za-z_][A-Za-z0-9_.]*/))) {
+      tokens.push({ type: 'name', text: match[0], start: i, end: i + match[0].length });
+    } else if ((match = rest.match(/^(<>|<=|>=|[-+*/^&=<>%])/))) {
+      tokens.push({ type: 'op', text: match[0], start: i, end: i + match[0].length });
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: 'paren', text: ch, start: i, end: i + 1 });
+    } else if (ch === ',' || ch === ';') {
+      tokens.push({ type: 'comma', text: ch, start: i, end: i + 1 });
+    } else if (ch === ':') {
+      tokens.push({ type: 'colon', text: ch, start: i, end: i + 1 });
+    } else {
+      throw new FormulaError('#ERR');
+    }
+    i = tokens[tokens.length - 1].end;
+  }
+  return tokens;
+};
+
+const parseRef = (text: string) => {
+  const match = text.match(REF_PATTERN)!;
+  return { r: parseInt(match[4]) - 1, c: columnIndex(match[2]) };
+};
+
+// Recursive descent, lowest precedence first: comparison, &, + -, * /, ^, unary, %
+const parse = (tokens: Token[]): Node => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) => peek()?.type === 'op' && ops.includes(peek().text);
+  const expect = (type: Token['type'], text?: string) => {
+    const token = peek();
+    if (!token || token.type !== type || (text !== undefined && token.text !== text)) throw new FormulaError('#ERR');
+    pos++;
+    return token;
+  };
+
+  const binary = (next: () => Node, ops: string[]) => (): Node => {
+    let left = next();
+    while (isOp(...ops)) {
+      const op = tokens[pos++].text;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    if (!token) throw new FormulaError('#ERR');
+    pos++;
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.text) };
+      case 'string':
+        return { type: 'string', value: token.text.slice(1, -1).replace(/""/g, '"') };
+      case 'error':
+        return { type: 'error', code: '#REF!' };
+      case 'ref': {
+        const start = parseRef(token.text);
+        if (peek()?.type !== 'colon') return { type: 'ref', ...start };
+        pos++;
+        const end = parseRef(expect('ref').text);
+        return {
+          type: 'range',
+          r1: Math.min(start.r, end.r), c1: Math.min(start.c, end.c),
+          r2: Math.max(start.r, end.r), c2: Math.max(start.c, end.c)
+        };
+      }
+      case 'name': {
+        const name = token.text.toUpperCase();
+        if (peek()?.type !== 'paren' || peek().text !== '(') {
+          if (name === 'TRUE' || name === 'FALSE') return { type: 'boolean', value: name === 'TRUE' };
+          throw new FormulaError('#ERR');
+        }
+        pos++;
+        const args: Node[] = [];
+        if (!(peek()?.type === 'paren' && peek().text === ')')) {
+          args.push(expression());
+          while (peek()?.type === 'comma') {
+            pos++;
+            args.push(expression());
+          }
+        }
+        expect('paren', ')');
+        return { type: 'call', name, args };
+      }
+      case 'paren': {
+        if (token.text !== '(') throw new FormulaError('#ERR');
+        const inner = expression();
+        expect('paren', ')');
+        return inner;
+      }
+      default:
+        throw new FormulaError('#ERR');
+    }
+  };
+
+  const percent = (): Node => {
+    let node = primary();
+    while (isOp('%')) {
+      pos++;
+      node = { type: 'percent', arg: node };
+    }
+    return node;
+  };
+
+  const unary = (): Node => {
+    if (isOp('-', '+')) {
+      const op = tokens[pos++].text;
+      return { type: 'unary', op, arg: unary() };
+    }
+    return percent();
+  };
+
+  const power = binary(unary, ['^']);
+  const term = binary(power, ['*', '/']);
+  const additive = binary(term, ['+', '-']);
+  const concat = binary(additive, ['&']);
+  const expression: () => Node = binary(concat, ['=', '<>', '<', '>', '<=', '>=']);
+
+  const node = expression();
+  if (pos < tokens.length) throw new FormulaError('#ERR');
+  return node;
+};
+
+const isError = (value: unknown): value is FormulaError => value instanceof FormulaError;
+
+const toNumber = (value: Scalar): number | FormulaError => {
+  if (isError(value) || typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === '') return 0;
+  return parseNumber(value) ?? new FormulaError('#ERR');
+};
+
+const toBoolean = (value: Scalar): boolean | FormulaError => {
+  if (isError(value) || typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (value === '') return false;
+  const upper = value.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+  return new FormulaError('#ERR');
+};
+
+const compare = (a: Scalar, b: Scalar): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1; // Numbers sort before text
+  if (typeof b === 'number') return 1;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+};
+
+// Numbers for aggregates: ranges contribute only their numeric cells, direct arguments must be numbers
+const collectNumbers = (args: Value[]): number[] | FormulaError => {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (typeof arg === 'object' && 'range' in arg) {
+      for (const value of arg.range) {
+        if (isError(value)) return value;
+        if (typeof value === 'number') numbers.push(value);
+      }
+    } else {
+      const n = toNumber(arg);
+      if (isError(n)) return n;
+      numbers.push(n);
+    }
+  }
+  return numbers;
+};
+
+const callFunction = (name: string, args: Value[]): Scalar => {
+  const scalarArg = (index: number): Scalar => {
+    const arg = args[index];
+    return arg === undefined || (typeof arg === 'object' && 'range' in arg) ? new FormulaError('#ERR') : arg;
+  };
+
+  switch (name) {
+    case 'SUM':
+    case 'AVG':
+    case 'AVERAGE':
+    case 'MIN':
+    case 'MAX':
+    case 'COUNT': {
+      if (name === 'COUNT') {
+        return args.reduce<number>((count, arg) => count + (typeof arg === 'object' && 'range' in arg
+          ? arg.range.filter(v => typeof v === 'number').length
+          : typeof arg === 'number' ? 1 : 0), 0);
+      }
+      const numbers = collectNumbers(args);
+      if (isError(numbers)) return numbers;
+      if (name === 'SUM') return numbers.reduce((a, b) => a + b, 0);
+      if (numbers.length === 0) return name === 'MIN' || name === 'MAX' ? 0 : new FormulaError('#DIV/0!');
+      if (name === 'MIN') return Math.min(...numbers);
+      if (name === 'MAX') return Math.max(...numbers);
+      return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    }
+    case 'ROUND': {
+      if (args.length < 1 || args.length > 2) return new FormulaError('#ERR');
+      const value = toNumber(scalarArg(0));
+      const digits = args.length > 1 ? toNumber(scalarArg(1)) : 0;
+      if (isError(value)) return value;
+      if (isError(digits)) return digits;
+      // Half away from zero, like spreadsheets
+      const factor = Math.pow(10, Math.trunc(digits));
+      return Math.sign(value) * Math.round(Math.abs(value) * factor + 1e-9) / factor;
+    }
+    case 'IF': {
+      if (args.length < 2 || args.length > 3) return new FormulaError('#ERR');
+      const condition = toBoolean(scalarArg(0));
+      if (isError(condition)) return condition;
+      if (condition) return scalarArg(1);
+      return args.length > 2 ? scalarArg(2) : false;
+    }
+    default:
+      return new FormulaError('#ERR');
+  }
+};
+
+const applyBinary = (op: string, left: Scalar, right: Scalar): Scalar => {
+  if (isError(left)) return left;
+  if (isError(right)) return right;
+
+  if (op === '&') return formatValue(left) + formatValue(right);
+  if (['=', '<>', '<', '>', '<=', '>='].includes(op)) {
+    const result = compare(left, right);
+    switch (op) {
+      case '=': return result === 0;
+      case '<>': return result !== 0;
+      case '<': return result < 0;
+      case '>': return result > 0;
+      case '<=': return result <= 0;
+      default: return result >= 0;
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (isError(a)) return a;
+  if (isError(b)) return b;
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? new FormulaError('#DIV/0!') : a / b;
+    case '^': return Math.pow(a, b);
+    default: return new FormulaError('#ERR');
+  }
+};
+
+// Round away float noise (0.1 + 0.2) before display
+const formatNumber = (value: number) => {
+  if (!Number.isFinite(value)) return '#ERR';
+  return String(parseFloat(value.toPrecision(12)));
+};
+
+const formatValue = (value: Scalar): string => {
+  if (isError(value)) return value.code;
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return value;
+};
+
+// Evaluate every formula cell. Cells are computed on demand, following references (so each
+// dependency is evaluated before the cells that use it) and memoised; a reference back into a
+// cell still being evaluated is a cycle. Returns the display text per cell id, formulas only.
+export const evaluateTable = (data: TableData): Map<string, string> => {
+  const cache = new Map<string, Scalar>();
+  const evaluating = new Set<string>();
+  const parsed = new Map<string, Node | FormulaError>();
+
+  const getParsed = (formula: string): Node | FormulaError => {
+    let node = parsed.get(formula);
+    if (!node) {
+      try {
+        node = parse(tokenize(formula.slice(1)));
+      } catch (error) {
+        node = isError(error) ? error : new FormulaError('#ERR');
+      }
+      parsed.set(formula, node);
+    }
+    return node;
+  };
+
+  const getCellValue = (r: number, c: number): Scalar => {
+    if (r < 0 || r >= data.length || c < 0 || c >= (data[0]?.length ?? 0)) return new FormulaError('#REF!');
+    const cell = data[r][c];
+    if (cell.hidden) return '';
+    const value = cell.value;
+    if (!isFormula(value)) {
+      const trimmed = value.trim();
+      if (!trimmed) return '';
+      // Numbers read through inline markup, so a bold "**20**" still adds up
+      return parseNumber(stripMarkup(trimmed)) ?? value;
+    }
+
+    const key = `${r}:${c}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+    if (evaluating.has(key)) return new FormulaError('#CYCLE!');
+
+    evaluating.add(key);
+    const node = getParsed(value);
+    let result = isError(node) ? node : evaluateNode(node);
+    if (typeof result === 'object' && 'range' in result) result = new FormulaError('#ERR');
+    evaluating.delete(key);
+    cache.set(key, result);
+    return result;
+  };
+
+  const evaluateNode = (node: Node): Value => {
+    switch (node.type) {
+      case 'number': return node.value;
+      case 'string': return node.value;
+      case 'boolean': return node.value;
+      case 'error': return new FormulaError(node.code);
+      case 'ref': return getCellValue(node.r, node.c);
+      case 'range': {
+        if (node.r2 >= data.length || node.c2 >= (data[0]?.length ?? 0)) return new FormulaError('#REF!');
+        const range: Scalar[] = [];
+        for (let r = node.r1; r <= node.r2; r++) {
+          for (let c = node.c1; c <= node.c2; c++) range.push(getCellValue(r, c));
+        }
+        return { range };
+      }
+      case 'unary': {
+        const arg = toScalar(evaluateNode(node.arg));
+        const n = toNumber(arg);
+        if (isError(n)) return n;
+        return node.op === '-' ? -n : n;
+      }
+      case 'percent': {
+        const n = toNumber(toScalar(evaluateNode(node.arg)));
+        return isError(n) ? n : n / 100;
+      }
+      case 'binary':
+        return applyBinary(node.op, toScalar(evaluateNode(node.left)), toScalar(evaluateNode(node.right)));
+      case 'call':
+        return callFunction(node.name, node.args.map(evaluateNode));
+    }
+  };
+
+  // A range used where a single value is expected
+  const toScalar = (value: Value): Scalar =>
+    typeof value === 'object' && 'range' in value ? new FormulaError('#ERR') : value;
+
+  const results = new Map<string, string>();
+  data.forEach((row, r) => row.forEach((cell, c) => {
+    if (!cell.hidden && isFormula(cell.value)) results.set(cell.id, formatValue(getCellValue(r, c)));
+  }));
+  return results;
+};
+
+// The table with the results of evaluateTable in place of the formulas
+export const applyComputedValues = (data: TableData, results: Map<string, string>): TableData => {
+  if (results.size === 0) return data;
+  return data.map(row => row.map(cell => (results.has(cell.id) ? { ...cell, value: results.get(cell.id)! } : cell)));
+};
+
+// The table with every formula replaced by its result, for exports that can't evaluate formulas
+export const withComputedValues = (data: TableData): TableData => applyComputedValues(data, evaluateTable(data));
+
+// Rewrite the references in every formula after rows or columns were inserted, deleted or
+// moved. mapIndex gives the new index of an old row / column, null when it was deleted.
+// A reference to a deleted line becomes #REF!; a range becomes the span of its surviving lines.
+export const remapReferences = (data: TableData, axis: 'row' | 'col', mapIndex: (index: number) => number | null): TableData => {
+  const mapRef = (text: string, index: number | null) => {
+    if (index === null) return null;
+    const match = text.match(REF_PATTERN)!;
+    return axis === 'row'
+      ? `${match[1]}${match[2]}${match[3]}${index + 1}`
+      : `${match[1]}${columnName(index)}${match[3]}${match[4]}`;
+  };
+  const axisIndex = (text: string) => (axis === 'row' ? parseRef(text).r : parseRef(text).c);
+
+  const rewrite = (formula: string): string => {
+    let tokens: Token[];
+    try {
+      tokens = tokenize(formula.slice(1));
+    } catch {
+      return formula; // Leave formulas we can't read untouched
+    }
+
+    let result = '';
+    let last = 0;
+    const source = formula.slice(1);
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type !== 'ref') continue;
+      const isRange = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'ref';
+      const endToken = isRange ? tokens[i + 2] : token;
+
+      let replacement: string;
+      if (isRange) {
+        const from = Math.min(axisIndex(token.text), axisIndex(endToken.text));
+        const to = Math.max(axisIndex(token.text), axisIndex(endToken.text));
+        const survivors: number[] = [];
+        for (let k = from; k <= to; k++) {
+          const mapped = mapIndex(k);
+          if (mapped !== null) survivors.push(mapped);
+        }
+        replacement = survivors.length === 0
+          ? '#REF!'
+          : `${mapRef(token.text, Math.min(...survivors))}:${mapRef(endToken.text, Math.max(...survivors))}`;
+      } else {
+        replacement = mapRef(token.text, mapIndex(axisIndex(token.text))) ?? '#REF!';
+      }
+
+      result += source.slice(last, token.start) + replacement;
+      last = endToken.end;
+      if (isRange) i += 2;
+    }
+    return `=${result}${source.slice(last)}`;
+  };
+
+  let changed = false;
+  const newData = data.map(row => row.map(cell => {
+    if (!isFormula(cell.value)) return cell;
+    const value = rewrite(cell.value);
+    if (value === cell.value) return cell;
+    changed = true;
+    return { ...cell, value };
+  }));
+  return changed ? newData : data;
+};
@@ -0,0 +1,135 @@
+import { TableData, TextAlign } from '../types';
+import { MergeExportMode, rowsToTableData, tableDataToRows } from './csvUtils';
+
+// GitHub flavoured Markdown pipe tables. Cell text is kept verbatim (inline code and other
+// inline markup included); only escaped pipes and <br> line breaks are translated.
+//
+// Merged cells have no Markdown equivalent, so they are flattened: the merged value sits in
+// the top-left cell and the covered cells are left blank ('owner'), or every covered cell
+// repeats the value ('fill').
+
+export interface MarkdownTable {
+  rows: string[][];
+  aligns: (TextAlign | null)[];
+}
+
+const SEPARATOR_CELL = /^:?-+:?$/;
+
+// Split a row on unescaped pipes. As in GFM this includes pipes inside code spans: a literal
+// pipe is always written \|, which is also how the export writes every pipe.
+export const splitMarkdownRow = (line: string): string[] => {
+  let source = line.trim();
+  if (source.startsWith('|')) source = source.slice(1);
+  if (source.endsWith('|') && !source.endsWith('\\|')) source = source.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\' && source[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (ch === '|') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells.map(cell => cell.trim().replace(/<br\s*\/?>/gi, '\n'));
+};
+
+const isSeparatorRow = (line: string) => {
+  if (!line.includes('-')) return false;
+  const cells = splitMarkdownRow(line);
+  return cells.length > 0 && cells.every(cell => SEPARATOR_CELL.test(cell));
+};
+
+const parseAlign = (cell: string): TextAlign | null => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+// Find the first pipe table in the text (a header row directly followed by an alignment row)
+export const parseMarkdownTable = (text: string): MarkdownTable | null => {
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!lines[i].includes('|') || !isSeparatorRow(lines[i + 1])) continue;
+
+    const header = splitMarkdownRow(lines[i]);
+    const aligns = splitMarkdownRow(lines[i + 1]).map(parseAlign);
+    const colCount = header.length;
+    const rows = [header];
+
+    for (let j = i + 2; j < lines.length; j++) {
+      const line = lines[j];
+      if (!line.trim() || !line.includes('|')) break;
+      const cells = splitMarkdownRow(line);
+      // GFM: extra cells are ignored, missing cells are empty
+      rows.push(Array.from({ length: colCount }).map((_, c) => cells[c] ?? ''));
+    }
+
+    return { rows, aligns: Array.from({ length: colCount }).map((_, c) => aligns[c] ?? null) };
+  }
+  return null;
+};
+
+export const importMarkdown = (text: string): TableData | null => {
+  const table = parseMarkdownTable(text);
+  if (!table) return null;
+  const data = rowsToTableData(table.rows);
+  data.forEach(row => row.forEach((cell, c) => {
+    const align = table.aligns[c];
+    if (align) cell.style = { ...cell.style, align };
+  }));
+  return data;
+};
+
+// Most common explicit alignment in a column, if any
+const getColumnAlign = (data: TableData, col: number): TextAlign | null => {
+  const counts = new Map<TextAlign, number>();
+  data.forEach(row => {
+    const align = row[col]?.hidden ? undefined : row[col]?.style?.align;
+    if (align) counts.set(align, (counts.get(align) ?? 0) + 1);
+  });
+  let best: TextAlign | null = null;
+  let bestCount = 0;
+  counts.forEach((count, align) => {
+    if (count > bestCount) {
+      best = align;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const escapeMarkdownCell = (value: string) =>
+  value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const formatSeparator = (align: TextAlign | null) => {
+  switch (align) {
+    case 'left': return ':---';
+    case 'center': return ':---:';
+    case 'right': return '---:';
+    default: return '---';
+  }
+};
+
+export const exportMarkdown = (data: TableData, mergeMode: MergeExportMode = 'owner'): string => {
+  if (data.length === 0 || data[0].length === 0) return '';
+  const rows = tableDataToRows(data, mergeMode).map(row => row.map(escapeMarkdownCell));
+  const aligns = data[0].map((_, c) => getColumnAlign(data, c));
+
+  const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [
+    formatRow(rows[0]),
+    formatRow(aligns.map(formatSeparator)),
+    ...rows.slice(1).map(formatRow)
+  ].join('\n');
+};
@@ -0,0 +1,232 @@
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import type { Font } from 'opentype.js';
+import { loadFallbackFontFile, loadFallbackOutlineFont, loadFontFile, loadOutlineFont } from '../services/fontService';
+import { BOLD_STROKE_RATIO, ITALIC_SKEW_DEG, canOutline } from './svgExport';
+import { toCssFont } from './textMeasure';
+
+// PDF export through svg2pdf.js: rough lines and fills stay vector paths, text stays real
+// (selectable) text in the embedded hand font. jsPDF has no synthetic bold / italic, so they
+// are drawn the same way as the outline export: a stroke around the glyphs and a skew.
+// Characters the hand font lacks (Chinese) are set in an embedded Chinese hand-style font, so
+// they stay selectable too. Only a line with glyphs neither font has (emoji), or any such line
+// when the Chinese font can't be loaded, is placed as a high resolution image rendered by the
+// browser instead.
+
+export type PdfPageSize = 'a4' | 'a3' | 'letter' | 'legal' | 'fit';
+export type PdfOrientation = 'auto' | 'portrait' | 'landscape';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize; // 'fit' sizes the page to the table
+  orientation: PdfOrientation;
+  margin: number; // mm
+  fitToPage: boolean; // Scale the table to the printable area instead of printing at 96 dpi
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+  pageSize: 'a4',
+  orientation: 'auto',
+  margin: 15,
+  fitToPage: true
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PDF_FONT_FILE = 'PatrickHand-Regular.ttf';
+const PDF_FONT_NAME = 'PatrickHand';
+const PDF_FALLBACK_FONT_FILE = 'ZCOOLKuaiLe-Regular.ttf';
+const PDF_FALLBACK_FONT_NAME = 'ZCOOLKuaiLe';
+const PT_PER_MM = 72 / 25.4;
+const PT_PER_PX = 0.75;
+const FALLBACK_TEXT_SCALE = 4;
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked, spreading the whole file would overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Render one line with the browser's font stack (hand font plus system fallbacks) to a PNG
+const rasterizeLine = (content: string, cssFont: string, fill: string, fontSize: number) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.font = cssFont;
+  const metrics = ctx.measureText(content);
+  const ascent = metrics.fontBoundingBoxAscent || fontSize;
+  const descent = metrics.fontBoundingBoxDescent || fontSize * 0.3;
+  const pad = fontSize * 0.2; // Room for italic overhang
+  const width = metrics.width + pad * 2;
+  const height = ascent + descent;
+
+  canvas.width = Math.ceil(width * FALLBACK_TEXT_SCALE);
+  canvas.height = Math.ceil(height * FALLBACK_TEXT_SCALE);
+  ctx.scale(FALLBACK_TEXT_SCALE, FALLBACK_TEXT_SCALE);
+  ctx.font = cssFont;
+  ctx.fillStyle = fill;
+  ctx.fillText(content, pad, ascent);
+  return { href: canvas.toDataURL('image/png'), width, height, ascent, pad, textWidth: metrics.width };
+};
+
+interface PdfFont {
+  font: Font;
+  name: string;
+}
+
+const hasGlyph = (font: Font, ch: string) => font.charToGlyph(ch).index !== 0;
+
+// Pieces of a line, each in the first font that has all of its glyphs; null when some
+// character is in neither font
+const splitByFont = (content: string, fonts: PdfFont[]): { text: string; font: PdfFont }[] | null => {
+  const runs: { text: string; font: PdfFont }[] = [];
+  for (const ch of Array.from(content)) {
+    const last = runs[runs.length - 1];
+    // Spaces stay with the run they're in
+    const font = /\s/.test(ch) ? last?.font ?? fonts[0] : fonts.find(f => hasGlyph(f.font, ch));
+    if (!font) return null;
+    if (last?.font === font) last.text += ch;
+    else runs.push({ text: ch, font });
+  }
+  return runs;
+};
+
+// Split a multi-line <text> into one element per line and font with an absolute baseline, so
+// every line can get its own skew and lines can be swapped for images
+const prepareTextElement = (text: SVGTextElement, fonts: PdfFont[]) => {
+  const fontSize = parseFloat(text.style.fontSize) || 16;
+  const fill = text.getAttribute('fill') ?? 'black';
+  const bold = text.style.fontWeight === 'bold' || parseInt(text.style.fontWeight) >= 600;
+  const italic = text.style.fontStyle === 'italic';
+  const anchor = text.getAttribute('text-anchor') ?? 'start';
+
+  const tspans = Array.from(text.querySelectorAll('tspan'));
+  const lines = tspans.length > 0 ? tspans : [text];
+
+  let y = parseFloat(text.getAttribute('y') ?? '0');
+  lines.forEach(line => {
+    y += parseFloat(line.getAttribute('dy') ?? '0');
+    const x = parseFloat(line.getAttribute('x') ?? text.getAttribute('x') ?? '0');
+    const content = line.textContent ?? '';
+    if (!content.trim()) return;
+
+    const runs = splitByFont(content, fonts);
+    if (!runs) {
+      const image = rasterizeLine(content, toCssFont({ fontSize, bold, italic }), fill, fontSize);
+      if (!image) return;
+      const startX = anchor === 'middle' ? x - image.textWidth / 2 : anchor === 'end' ? x - image.textWidth : x;
+      const element = document.createElementNS(SVG_NS, 'image');
+      element.setAttribute('href', image.href);
+      element.setAttribute('x', String(startX - image.pad));
+      element.setAttribute('y', String(y - image.ascent));
+      element.setAttribute('width', String(image.width));
+      element.setAttribute('height', String(image.height));
+      text.parentNode?.insertBefore(element, text);
+      return;
+    }
+
+    // Runs are laid out one after another from the start of the line, measured in their own font
+    const widths = runs.map(run => run.font.font.getAdvanceWidth(run.text, fontSize));
+    const width = widths.reduce((sum, w) => sum + w, 0);
+    let runX = anchor === 'middle' ? x - width / 2 : anchor === 'end' ? x - width : x;
+    runs.forEach((run, i) => {
+      const element = document.createElementNS(SVG_NS, 'text');
+      element.setAttribute('x', String(runX));
+      element.setAttribute('y', String(y));
+      element.setAttribute('fill', fill);
+      element.setAttribute('font-size', String(fontSize));
+      element.setAttribute('font-family', run.font.name);
+      if (bold) {
+        element.setAttribute('stroke', fill);
+        element.setAttribute('stroke-width', String(fontSize * BOLD_STROKE_RATIO));
+        element.setAttribute('stroke-linejoin', 'round');
+      }
+      if (italic) element.setAttribute('transform', `translate(${x} ${y}) skewX(${ITALIC_SKEW_DEG}) translate(${-x} ${-y})`);
+      element.textContent = run.text;
+      text.parentNode?.insertBefore(element, text);
+      runX += widths[i];
+    });
+  });
+
+  text.remove();
+};
+
+// The Chinese font, when some text needs it. It's several megabytes, so it's only fetched
+// then; jsPDF embeds just the glyphs used.
+const loadFallbackFont = async (texts: SVGTextElement[], font: Font) => {
+  const needed = texts.some(text => !canOutline(font, text.textContent ?? ''));
+  if (!needed) return null;
+  try {
+    const [file, fallback] = await Promise.all([loadFallbackFontFile(), loadFallbackOutlineFont()]);
+    return { file, font: fallback };
+  } catch (error) {
+    console.error('Chinese font unavailable, drawing those lines as images', error);
+    return null;
+  }
+};
+
+const getPageLayout = (contentWidth: number, contentHeight: number, options: PdfExportOptions) => {
+  const margin = Math.max(0, options.margin) * PT_PER_MM;
+  const landscape = options.orientation === 'auto'
+    ? contentWidth > contentHeight
+    : options.orientation === 'landscape';
+
+  if (options.pageSize === 'fit') {
+    const format = [contentWidth + margin * 2, contentHeight + margin * 2];
+    return { format, orientation: format[0] > format[1] ? 'landscape' as const : 'portrait' as const, margin };
+  }
+  return { format: options.pageSize, orientation: landscape ? 'landscape' as const : 'portrait' as const, margin };
+};
+
+export const exportPdf = async (svg: SVGSVGElement, options: PdfExportOptions): Promise<Blob> => {
+  const [fontFile, font] = await Promise.all([loadFontFile(), loadOutlineFont()]);
+
+  const contentWidth = parseFloat(svg.getAttribute('width') ?? '0') * PT_PER_PX;
+  const contentHeight = parseFloat(svg.getAttribute('height') ?? '0') * PT_PER_PX;
+  const layout = getPageLayout(contentWidth, contentHeight, options);
+
+  const pdf = new jsPDF({ unit: 'pt', format: layout.format, orientation: layout.orientation });
+  pdf.addFileToVFS(PDF_FONT_FILE, arrayBufferToBase64(fontFile));
+  pdf.addFont(PDF_FONT_FILE, PDF_FONT_NAME, 'normal');
+  const fonts: PdfFont[] = [{ font, name: PDF_FONT_NAME }];
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const availableWidth = pageWidth - layout.margin * 2;
+  const availableHeight = pageHeight - layout.margin * 2;
+  const scale = options.fitToPage && options.pageSize !== 'fit'
+    ? Math.min(availableWidth / contentWidth, availableHeight / contentHeight)
+    : 1;
+  const width = contentWidth * scale;
+  const height = contentHeight * scale;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const texts = Array.from(clone.querySelectorAll('text'));
+  const fallback = await loadFallbackFont(texts, font);
+  if (fallback) {
+    pdf.addFileToVFS(PDF_FALLBACK_FONT_FILE, arrayBufferToBase64(fallback.file));
+    pdf.addFont(PDF_FALLBACK_FONT_FILE, PDF_FALLBACK_FONT_NAME, 'normal');
+    fonts.push({ font: fallback.font, name: PDF_FALLBACK_FONT_NAME });
+  }
+  texts.forEach(text => prepareTextElement(text, fonts));
+
+  // svg2pdf resolves styles and clip paths through the DOM, so render from an attached (hidden) copy
+  const host = document.createElement('div');
+  host.style.cssText = 'position:fixed;left:-10000px;top:0;visibility:hidden';
+  host.appendChild(clone);
+  document.body.appendChild(host);
+  try {
+    await svg2pdf(clone, pdf, {
+      x: layout.margin + Math.max(0, (availableWidth - width) / 2),
+      y: layout.margin,
+      width,
+      height
+    });
+  } finally {
+    host.remove();
+  }
+
+  return pdf.output('blob');
+};
@@ -0,0 +1,107 @@
+// Rasterize a self-contained SVG (see serializeSvg) to PNG / JPEG / WebP. The <img> route
+// ignores external imports, so the font must already be inlined in the SVG data.
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+export type RasterBackground = 'transparent' | 'white' | 'custom';
+
+export interface RasterExportOptions {
+  scale: number; // 1 = 96 dpi
+  background: RasterBackground;
+  backgroundColor: string; // Used when background is 'custom'
+  margin: number; // px around the table, before scaling
+  format: RasterFormat;
+  quality: number; // 0..1, JPEG / WebP only
+  filename: string; // Without extension
+}
+
+// Area of the SVG to export, in SVG pixels
+export interface RasterBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_RASTER_OPTIONS: RasterExportOptions = {
+  scale: 2,
+  background: 'white',
+  backgroundColor: '#fdf6e3',
+  margin: 5,
+  format: 'png',
+  quality: 0.92,
+  filename: 'handy_table'
+};
+
+export const BASE_DPI = 96;
+
+const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export const getRasterFilename = (options: RasterExportOptions) => {
+  const base = options.filename.trim().replace(/[\\/:*?"<>|]/g, '_') || DEFAULT_RASTER_OPTIONS.filename;
+  return `${base}.${options.format === 'jpeg' ? 'jpg' : options.format}`;
+};
+
+const loadImage = (svgData: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not load the SVG as an image'));
+    };
+    img.src = url;
+  });
+
+const getBackgroundColor = (options: RasterExportOptions): string | null => {
+  if (options.background === 'custom') return options.backgroundColor;
+  if (options.background === 'white') return '#ffffff';
+  // JPEG has no alpha channel, transparent pixels would turn black
+  return options.format === 'jpeg' ? '#ffffff' : null;
+};
+
+export const renderRaster = async (svgData: string, box: RasterBox, options: RasterExportOptions): Promise<Blob> => {
+  const img = await loadImage(svgData);
+  const margin = Math.max(0, options.margin);
+  const scale = Math.max(0.1, options.scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((box.width + margin * 2) * scale);
+  canvas.height = Math.round((box.height + margin * 2) * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const background = getBackgroundColor(options);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, margin - box.x, margin - box.y);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))),
+      MIME_TYPES[options.format],
+      options.format === 'png' ? undefined : options.quality
+    );
+  });
+};
+
+// The async clipboard API only guarantees PNG, so copies are always rendered as PNG.
+// Takes the SVG data as a promise: Safari only allows the write while the click is being
+// handled, so the ClipboardItem has to be created before anything is awaited.
+export const copyRasterToClipboard = async (svgData: Promise<string>, box: RasterBox, options: RasterExportOptions) => {
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
+    throw new Error('Image clipboard is not supported');
+  }
+  const blob = svgData.then(data => renderRaster(data, box, { ...options, format: 'png' }));
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+};
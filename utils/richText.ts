@@ -0,0 +1,274 @@
+import { FontSpec, getBreakSegments, measureText } from './textMeasure';
+
+// Inline markup in cell values:
+//   **bold**  *italic*  ~~strike~~  ==highlight==  {red|coloured}  {#e11d48|coloured}  [label](https://…)
+// Markers nest, a backslash before a markup character escapes it (other backslashes are kept,
+// so "C:\Users" stays as typed), and a marker without a partner later in the text is just
+// text (so "5 * 3" stays as typed). Values stay as typed; drawing, sorting, filtering,
+// formulas and column formats look through the markup.
+
+export interface RichRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  highlight?: boolean;
+  color?: string;
+  link?: string;
+}
+
+type RunStyle = Omit<RichRun, 'text'>;
+type ToggleKey = 'bold' | 'italic' | 'strike' | 'highlight';
+
+// Longest first, so ** isn't read as two italic markers
+const TOGGLES: { marker: string; key: ToggleKey }[] = [
+  { marker: '**', key: 'bold' },
+  { marker: '~~', key: 'strike' },
+  { marker: '==', key: 'highlight' },
+  { marker: '*', key: 'italic' }
+];
+
+// CSS named colours; any other word in {word|…} is left as typed
+const COLOR_NAMES = new Set((
+  'aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue blueviolet ' +
+  'brown burlywood cadetblue chartreuse chocolate coral cornflowerblue cornsilk crimson cyan ' +
+  'darkblue darkcyan darkgoldenrod darkgray darkgreen darkgrey darkkhaki darkmagenta darkolivegreen ' +
+  'darkorange darkorchid darkred darksalmon darkseagreen darkslateblue darkslategray darkslategrey ' +
+  'darkturquoise darkviolet deeppink deepskyblue dimgray dimgrey dodgerblue firebrick floralwhite ' +
+  'forestgreen fuchsia gainsboro ghostwhite gold goldenrod gray green greenyellow grey honeydew ' +
+  'hotpink indianred indigo ivory khaki lavender lavenderblush lawngreen lemonchiffon lightblue ' +
+  'lightcoral lightcyan lightgoldenrodyellow lightgray lightgreen lightgrey lightpink lightsalmon ' +
+  'lightseagreen lightskyblue lightslategray lightslategrey lightsteelblue lightyellow lime ' +
+  'limegreen linen magenta maroon mediumaquamarine mediumblue mediumorchid mediumpurple ' +
+  'mediumseagreen mediumslateblue mediumspringgreen mediumturquoise mediumvioletred midnightblue ' +
+  'mintcream mistyrose moccasin navajowhite navy oldlace olive olivedrab orange orangered orchid ' +
+  'palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff peru pink plum ' +
+  'powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon sandybrown seagreen ' +
+  'seashell sienna silver skyblue slateblue slategray slategrey snow springgreen steelblue tan teal ' +
+  'thistle tomato turquoise violet wheat white whitesmoke yellow yellowgreen'
+).split(' '));
+const HEX_COLOR = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const isColor = (name: string) => HEX_COLOR.test(name) || COLOR_NAMES.has(name.toLowerCase());
+// Only web and mail links, exported SVGs keep them clickable
+const LINK = /^\[([^\]\n]*)\]\(((?:https?:\/\/|mailto:)[^)\s]+)\)/i;
+const COLOR_OPEN = /^\{([^|{}\s]+)\|/;
+// Characters a backslash escapes
+const ESCAPABLE = '*~={}|[]()\\';
+
+const isSpace = (ch: string | undefined) => ch !== undefined && /\s/.test(ch);
+
+const hasStyle = (style: RunStyle) => Object.values(style).some(Boolean);
+
+// A closing marker later in the text, not escaped
+const hasClosing = (text: string, from: number, marker: string): boolean => {
+  for (let i = text.indexOf(marker, from); i !== -1; i = text.indexOf(marker, i + 1)) {
+    if (text[i - 1] !== '\\' && !isSpace(text[i - 1])) return true;
+  }
+  return false;
+};
+
+const parseInto = (text: string, base: RunStyle, runs: RichRun[]) => {
+  const style: RunStyle = { ...base };
+  const colors: (string | undefined)[] = [];
+  let current = '';
+  const flush = () => {
+    if (!current) return;
+    const last = runs[runs.length - 1];
+    const run = { ...style, text: current };
+    // Merge with the previous run when the style is unchanged
+    if (last && JSON.stringify({ ...last, text: '' }) === JSON.stringify({ ...run, text: '' })) last.text += current;
+    else runs.push(run);
+    current = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    if (text[i] === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      current += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    const toggle = TOGGLES.find(t => rest.startsWith(t.marker));
+    if (toggle) {
+      const { marker, key } = toggle;
+      const after = text[i + marker.length];
+      const opens = !style[key] && after !== undefined && !isSpace(after) && hasClosing(text, i + marker.length + 1, marker);
+      const closes = style[key] && !base[key];
+      if (opens || closes) {
+        flush();
+        style[key] = opens ? true : undefined;
+        i += marker.length;
+        continue;
+      }
+    }
+
+    const link = LINK.exec(rest);
+    if (link && !style.link) {
+      flush();
+      parseInto(link[1] || link[2], { ...style, link: link[2] }, runs);
+      i += link[0].length;
+      continue;
+    }
+
+    const colorOpen = COLOR_OPEN.exec(rest);
+    if (colorOpen && isColor(colorOpen[1]) && text.indexOf('}', i) !== -1) {
+      flush();
+      colors.push(style.color);
+      style.color = colorOpen[1];
+      i += colorOpen[0].length;
+      continue;
+    }
+    if (text[i] === '}' && colors.length > 0) {
+      flush();
+      style.color = colors.pop();
+      i += 1;
+      continue;
+    }
+
+    current += text[i];
+    i += 1;
+  }
+  flush();
+};
+
+export const parseRichText = (text: string): RichRun[] => {
+  const runs: RichRun[] = [];
+  parseInto(text, {}, runs);
+  // Drop the undefined keys left by closed markers
+  return runs.map(run => Object.fromEntries(Object.entries(run).filter(([, v]) => v !== undefined)) as RichRun);
+};
+
+export const hasMarkup = (runs: RichRun[]): boolean => runs.some(({ text, ...style }) => hasStyle(style));
+
+// The text as read, without markup; used for sorting, filtering and sizing
+export const stripMarkup = (text: string): string => parseRichText(text).map(run => run.text).join('');
+
+export const getRunFont = (run: RichRun, font: FontSpec): FontSpec => ({
+  ...font,
+  bold: run.bold || font.bold,
+  italic: run.italic || font.italic
+});
+
+export const measureRuns = (runs: RichRun[], font: FontSpec): number =>
+  runs.reduce((sum, run) => sum + measureText(run.text, getRunFont(run, font)), 0);
+
+// Runs split at explicit line breaks
+const splitParagraphs = (runs: RichRun[]): RichRun[][] => {
+  const paragraphs: RichRun[][] = [[]];
+  runs.forEach(run => {
+    run.text.split('\n').forEach((part, i) => {
+      if (i > 0) paragraphs.push([]);
+      if (part) paragraphs[paragraphs.length - 1].push({ ...run, text: part });
+    });
+  });
+  return paragraphs;
+};
+
+// Widest explicit line, for sizing columns
+export const measureRichLines = (runs: RichRun[], font: FontSpec): number =>
+  Math.max(0, ...splitParagraphs(runs).map(paragraph => measureRuns(paragraph, font)));
+
+// Line breaking across styled runs, with the same break rules as wrapText. Each line is a list
+// of runs without trailing spaces; an empty paragraph is an empty line.
+export const wrapRichText = (runs: RichRun[], maxWidth: number, font: FontSpec): RichRun[][] => {
+  if (runs.length === 0) return [];
+  const lines: RichRun[][] = [];
+
+  splitParagraphs(runs).forEach(paragraph => {
+    if (paragraph.length === 0) {
+      lines.push([]);
+      return;
+    }
+
+    // Characters of the paragraph with the run each came from
+    const chars: string[] = [];
+    const owners: number[] = [];
+    paragraph.forEach((run, index) => Array.from(run.text).forEach(ch => {
+      chars.push(ch);
+      owners.push(index);
+    }));
+
+    // Runs covering chars[start, end), trailing spaces dropped
+    const slice = (start: number, end: number): RichRun[] => {
+      while (end > start && isSpace(chars[end - 1])) end--;
+      const result: RichRun[] = [];
+      for (let i = start; i < end; i++) {
+        const last = result[result.length - 1];
+        if (last && owners[i] === owners[i - 1] && i > start) last.text += chars[i];
+        else result.push({ ...paragraph[owners[i]], text: chars[i] });
+      }
+      return result;
+    };
+    const widthOf = (start: number, end: number) => measureRuns(slice(start, end), font);
+
+    let lineStart = 0;
+    let lineEnd = 0;
+    const breakLine = () => {
+      lines.push(slice(lineStart, lineEnd));
+      lineStart = lineEnd;
+    };
+
+    const pushSegment = (start: number, end: number) => {
+      if (lineStart === lineEnd) {
+        // Leading spaces of a wrapped line are dropped
+        while (start < end && isSpace(chars[start])) start++;
+        lineStart = lineEnd = start;
+        if (widthOf(start, end) <= maxWidth) {
+          lineEnd = end;
+          return;
+        }
+        // A single segment wider than the cell: fall back to breaking between characters
+        for (let i = start; i < end; i++) {
+          if (lineEnd > lineStart && widthOf(lineStart, i + 1) > maxWidth) {
+            breakLine();
+            if (isSpace(chars[i])) {
+              lineStart = lineEnd = i + 1;
+              continue;
+            }
+          }
+          lineEnd = i + 1;
+        }
+        return;
+      }
+
+      if (widthOf(lineStart, end) <= maxWidth) {
+        lineEnd = end;
+      } else {
+        breakLine();
+        pushSegment(start, end);
+      }
+    };
+
+    let offset = 0;
+    getBreakSegments(chars.join('')).forEach(segment => {
+      const length = Array.from(segment).length;
+      pushSegment(offset, offset + length);
+      offset += length;
+    });
+    lines.push(slice(lineStart, lineEnd));
+  });
+
+  return lines;
+};
+
+// Wrap the textarea selection in a marker, or unwrap it when it's already wrapped. With no
+// selection the pair is inserted and the caret goes between them. The marker characters next
+// to the selection are counted as a whole, so Ctrl+I inside "**abc**" makes "***abc***" (bold
+// and italic) instead of taking one "*" off each side.
+export const toggleMarkup = (value: string, start: number, end: number, marker: string) => {
+  const m = marker.length;
+  const ch = marker[0];
+  let before = 0;
+  while (start - before > 0 && value[start - before - 1] === ch) before++;
+  let after = 0;
+  while (end + after < value.length && value[end + after] === ch) after++;
+  // An odd number of "*" holds an italic marker; two or more of a character hold a double one
+  const wrapped = (count: number) => (m === 1 ? count % 2 === 1 : count >= m);
+  if (wrapped(before) && wrapped(after)) {
+    return { value: value.slice(0, start - m) + value.slice(start, end) + value.slice(end + m), start: start - m, end: end - m };
+  }
+  return { value: value.slice(0, start) + marker + value.slice(start, end) + marker + value.slice(end), start: start + m, end: end + m };
+};
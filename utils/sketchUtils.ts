@@ -1,8 +1,38 @@
-// Simple PRNG to keep the "randomness" consistent between renders if needed
-// For this UI, Math.random is fine as long as we use stable seeds or just let it wiggle on update.
-// To prevent excessive jittering, in a real app we'd cache the path data, but for simplicity here we'll let it be dynamic.
+// Seeded randomness keeps the sketch stable between renders: the same seed and key
+// always produce the same wiggle, so edits only redraw what actually changed and
+// exports are reproducible.
 
-export const getRoughPath = (x1: number, y1: number, x2: number, y2: number, roughness: number = 1, bowing: number = 1): string => {
+export type Rng = () => number;
+
+// Mulberry32 - tiny, fast and good enough for visual jitter
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a hash of the key parts, used to derive independent streams per segment / cell
+export const hashSeed = (...parts: (string | number)[]): number => {
+  const key = parts.join(':');
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Random stream for one element of the table, e.g. seededRng(seed, 'h', row, col)
+export const seededRng = (seed: number, ...keys: (string | number)[]): Rng => createRng(hashSeed(seed, ...keys));
+
+export const randomSeed = (): number => Math.floor(Math.random() * 1000000);
+
+export const getRoughPath = (x1: number, y1: number, x2: number, y2: number, roughness: number = 1, bowing: number = 1, rng: Rng = Math.random): string => {
   const len = Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
   const midX = (x1 + x2) / 2;
   const midY = (y1 + y2) / 2;
@@ -11,16 +41,16 @@ export const getRoughPath = (x1: number, y1: number, x2: number, y2: number, rou
   const bowOffset = len * 0.05 * bowing;
   const angle = Math.atan2(y2 - y1, x2 - x1);
   const perpAngle = angle + Math.PI / 2;
-  
-  const randomBow = (Math.random() - 0.5) * bowOffset;
+
+  const randomBow = (rng() - 0.5) * bowOffset;
   const controlX = midX + Math.cos(perpAngle) * randomBow;
   const controlY = midY + Math.sin(perpAngle) * randomBow;
 
   // Roughness adds jaggedness. We'll do a simple Quad Bezier for smoothness with slight error
-  const r1 = (Math.random() - 0.5) * roughness * 2;
-  const r2 = (Math.random() - 0.5) * roughness * 2;
-  const r3 = (Math.random() - 0.5) * roughness * 2;
-  const r4 = (Math.random() - 0.5) * roughness * 2;
+  const r1 = (rng() - 0.5) * roughness * 2;
+  const r2 = (rng() - 0.5) * roughness * 2;
+  const r3 = (rng() - 0.5) * roughness * 2;
+  const r4 = (rng() - 0.5) * roughness * 2;
 
   return `M ${x1 + r1} ${y1 + r2} Q ${controlX} ${controlY} ${x2 + r3} ${y2 + r4}`;
 };
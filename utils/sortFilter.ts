@@ -0,0 +1,151 @@
+import { ColumnFilter, FilterOperator, TableData } from '../types';
+import { LineBlock, getRowBlock, selectRows } from './tableModel';
+import { stripMarkup } from './richText';
+
+// Sorting and filtering of body rows. Header rows stay on top and rows joined by a vertical
+// merge move (or are filtered) together as one block, keyed by the block's first row.
+
+export type SortOrder = 'asc' | 'desc';
+export type SortMode = 'natural' | 'text' | 'number';
+
+export const FILTER_OPERATORS: FilterOperator[] = ['contains', 'equals', 'greater', 'less', 'not-empty'];
+
+// Chinese is ordered by pinyin; 'natural' also compares digit runs by value ("Item 2" < "Item 10")
+const textCollator = new Intl.Collator(['zh-Hans-CN', 'en'], { sensitivity: 'base' });
+const naturalCollator = new Intl.Collator(['zh-Hans-CN', 'en'], { sensitivity: 'base', numeric: true });
+
+// Read "¥1,299.00", "-5%" or "3 000" as a number; null when the text isn't numeric
+export const parseNumber = (value: string): number | null => {
+  const cleaned = value.trim().replace(/[\s,_]/g, '').replace(/^[¥$€£￥]|[¥$€£￥元]$/g, '').replace(/%$/, '');
+  if (!cleaned || !/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
+
+const compareValues = (a: string, b: string, mode: SortMode): number => {
+  if (mode === 'number') {
+    const x = parseNumber(a);
+    const y = parseNumber(b);
+    if (x !== null && y !== null) return x - y;
+    return naturalCollator.compare(a, b);
+  }
+  return (mode === 'natural' ? naturalCollator : textCollator).compare(a, b);
+};
+
+// Rows that can't be ordered meaningfully go to the bottom in both directions: empty cells
+// last, and in number mode non-numeric text just above them
+const getSortTier = (value: string, mode: SortMode) => {
+  if (!value) return 2;
+  return mode === 'number' && parseNumber(value) === null ? 1 : 0;
+};
+
+// Text of a row block in a column, without inline markup; a horizontally merged cell reads its owner
+const getBlockValue = (data: TableData, block: LineBlock, col: number): string => {
+  const cell = data[block.start][col];
+  if (!cell.hidden) return stripMarkup(cell.value);
+  return stripMarkup(data[cell.ownerRow ?? block.start]?.[cell.ownerCol ?? col]?.value ?? '');
+};
+
+// Split the body into blocks; null when a vertical merge joins a header row to the body
+const getBodyBlocks = (data: TableData, headerRows: number): LineBlock[] | null => {
+  const blocks: LineBlock[] = [];
+  let r = Math.min(headerRows, data.length);
+  if (r > 0 && r < data.length && getRowBlock(data, r).start < r) return null;
+  while (r < data.length) {
+    const block = getRowBlock(data, r);
+    blocks.push(block);
+    r = block.end + 1;
+  }
+  return blocks;
+};
+
+const expandBlocks = (blocks: LineBlock[]): number[] =>
+  blocks.flatMap(block => Array.from({ length: block.end - block.start + 1 }).map((_, i) => block.start + i));
+
+export type SortResult = { data: TableData; newIndex: number[] } | { error: string };
+
+// Stable sort of the body rows by one column
+export const sortRows = (data: TableData, col: number, order: SortOrder, mode: SortMode, headerRows = 1): SortResult => {
+  const blocks = getBodyBlocks(data, headerRows);
+  if (!blocks) return { error: '表头与正文之间有纵向合并的单元格，无法排序。请先取消该合并。' };
+
+  const keyed = blocks.map((block, index) => {
+    const value = getBlockValue(data, block, col).trim();
+    return { block, index, value, tier: getSortTier(value, mode) };
+  });
+  keyed.sort((a, b) => {
+    if (a.tier !== b.tier) return a.tier - b.tier;
+    if (a.tier === 2) return a.index - b.index;
+    const result = compareValues(a.value, b.value, mode);
+    return (order === 'asc' ? result : -result) || a.index - b.index;
+  });
+
+  const headers = Array.from({ length: Math.min(headerRows, data.length) }).map((_, i) => i);
+  const rows = [...headers, ...expandBlocks(keyed.map(k => k.block))];
+  const newIndex: number[] = [];
+  rows.forEach((oldIndex, i) => { newIndex[oldIndex] = i; });
+  return { data: selectRows(data, rows), newIndex };
+};
+
+export const matchesFilter = (value: string, filter: ColumnFilter): boolean => {
+  const text = value.trim();
+  const query = filter.value.trim();
+  switch (filter.operator) {
+    case 'contains':
+      return text.toLocaleLowerCase().includes(query.toLocaleLowerCase());
+    case 'equals':
+      return textCollator.compare(text, query) === 0;
+    case 'greater':
+    case 'less': {
+      const x = parseNumber(text);
+      const y = parseNumber(query);
+      if (x === null || y === null) return false;
+      return filter.operator === 'greater' ? x > y : x < y;
+    }
+    case 'not-empty':
+      return text !== '';
+    default:
+      return true;
+  }
+};
+
+// Old indices of the rows left after filtering (headers included). If a vertical merge joins
+// the header to the body nothing is filtered: there'd be no way to cut the table cleanly.
+export const getVisibleRows = (data: TableData, filters: ColumnFilter[], headerRows = 1): number[] => {
+  const all = data.map((_, r) => r);
+  const active = filters.filter(f => data[0] && f.col < data[0].length);
+  if (active.length === 0) return all;
+  const blocks = getBodyBlocks(data, headerRows);
+  if (!blocks) return all;
+
+  const kept = blocks.filter(block => active.every(f => matchesFilter(getBlockValue(data, block, f.col), f)));
+  const headers = Array.from({ length: Math.min(headerRows, data.length) }).map((_, i) => i);
+  return [...headers, ...expandBlocks(kept)];
+};
+
+export const canFilterRows = (data: TableData, headerRows = 1): boolean => getBodyBlocks(data, headerRows) !== null;
+
+// The table as drawn: filtered rows removed, custom row heights following their rows
+export const applyFilters = (
+  data: TableData,
+  rowHeights: Record<number, number>,
+  filters: ColumnFilter[],
+  headerRows = 1
+): { data: TableData; rowHeights: Record<number, number> } => {
+  const rows = getVisibleRows(data, filters, headerRows);
+  if (rows.length === data.length) return { data, rowHeights };
+  const heights: Record<number, number> = {};
+  rows.forEach((oldIndex, i) => {
+    if (rowHeights[oldIndex] !== undefined) heights[i] = rowHeights[oldIndex];
+  });
+  return { data: selectRows(data, rows), rowHeights: heights };
+};
+
+// Filters follow their columns through inserts, deletes and moves
+export const shiftFilters = (filters: ColumnFilter[], index: number): ColumnFilter[] =>
+  filters.map(f => (f.col >= index ? { ...f, col: f.col + 1 } : f));
+
+export const removeFilterColumn = (filters: ColumnFilter[], index: number): ColumnFilter[] =>
+  filters.filter(f => f.col !== index).map(f => (f.col > index ? { ...f, col: f.col - 1 } : f));
+
+export const reorderFilters = (filters: ColumnFilter[], newIndex: number[]): ColumnFilter[] =>
+  filters.map(f => ({ ...f, col: newIndex[f.col] ?? f.col }));
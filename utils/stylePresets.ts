@@ -0,0 +1,165 @@
+import { LayoutConfigKey, StylePreset, TableConfig, TableStyle } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { repairConfig } from './documentValidation';
+
+// Themes and saved presets. A preset only carries the look of a table: the layout fields stay
+// with the table it's applied to.
+
+const LAYOUT_KEYS: LayoutConfigKey[] = [
+  'seed', 'widthScale', 'headerRows', 'headerColumns', 'customColumnWidths', 'customRowHeights', 'filters', 'columnFormats', 'annotations'
+];
+
+const PRESET_FILE_TYPE = 'handy-table-presets';
+const PRESET_FILE_VERSION = 1;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const extractStyle = (config: TableConfig): TableStyle => {
+  const style: Partial<TableConfig> = { ...config };
+  LAYOUT_KEYS.forEach(key => { delete style[key]; });
+  return style as TableStyle;
+};
+
+export const applyStyle = (config: TableConfig, style: TableStyle): TableConfig => ({ ...config, ...extractStyle({ ...config, ...style }) });
+
+const DEFAULT_STYLE = extractStyle(DEFAULT_CONFIG);
+
+export const BUILT_IN_THEMES: StylePreset[] = [
+  { id: 'classic', name: '经典', style: DEFAULT_STYLE },
+  {
+    id: 'pencil',
+    name: '铅笔素描',
+    style: {
+      ...DEFAULT_STYLE,
+      roughness: 2.2,
+      bowing: 1.6,
+      stroke: '#4a5568',
+      strokeWidth: 1.5,
+      textColor: '#2d3748',
+      background: 'paper',
+      backgroundColor: '#fbf7ee',
+      fill: 'hachure',
+      fillColor: '#718096',
+      fillAngle: -45,
+      fillGap: 5,
+      fillWeight: 0.5
+    }
+  },
+  {
+    id: 'marker',
+    name: '马克笔',
+    style: {
+      ...DEFAULT_STYLE,
+      roughness: 0.8,
+      bowing: 0.6,
+      stroke: '#1a202c',
+      strokeWidth: 3.5,
+      textColor: '#1a202c',
+      fill: 'solid',
+      fillColor: '#f6e05e',
+      headerFontSize: 22,
+      bodyFontSize: 17,
+      headerSeparator: 'thick'
+    }
+  },
+  {
+    id: 'chalkboard',
+    name: '黑板',
+    style: {
+      ...DEFAULT_STYLE,
+      roughness: 2.5,
+      bowing: 1,
+      stroke: '#e2e8f0',
+      strokeWidth: 2.5,
+      textColor: '#f8fafc',
+      background: 'chalkboard',
+      backgroundColor: '#2f3e35',
+      fill: 'hachure',
+      fillColor: '#fde68a',
+      fillGap: 10,
+      fillWeight: 1.5,
+      headerSeparator: 'double'
+    }
+  },
+  {
+    id: 'blueprint',
+    name: '蓝图',
+    style: {
+      ...DEFAULT_STYLE,
+      roughness: 0.6,
+      bowing: 0.3,
+      stroke: '#1d4ed8',
+      strokeWidth: 1.5,
+      textColor: '#1e3a8a',
+      background: 'grid',
+      backgroundColor: '#f8fbff',
+      fill: 'cross-hatch',
+      fillColor: '#93c5fd',
+      fillAngle: 45,
+      fillGap: 6,
+      fillWeight: 0.5,
+      headerBold: false,
+      headerSeparator: 'double'
+    }
+  },
+  {
+    id: 'sticky-note',
+    name: '便利贴',
+    style: {
+      ...DEFAULT_STYLE,
+      roughness: 1.2,
+      bowing: 1.5,
+      stroke: '#92400e',
+      strokeWidth: 2,
+      textColor: '#78350f',
+      fill: 'solid',
+      fillColor: '#f59e0b',
+      bodyFill: 'solid',
+      bodyFillColor: '#fde047'
+    }
+  }
+];
+
+export const createPreset = (name: string, config: TableConfig): StylePreset => ({
+  id: generateId(),
+  name,
+  style: extractStyle(config)
+});
+
+// Saved or imported styles are repaired like a stored config: bad fields fall back to defaults
+export const repairStyle = (raw: unknown, issues: string[] = []): TableStyle => extractStyle(repairConfig(raw, issues));
+
+export const exportPresets = (presets: StylePreset[]): string =>
+  JSON.stringify({
+    type: PRESET_FILE_TYPE,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, style }) => ({ name, style }))
+  }, null, 2);
+
+// Read a preset file; imported presets get fresh ids so they never replace existing ones.
+// Also accepts a single bare preset ({ name, style }).
+export const importPresets = (text: string, issues: string[] = []): StylePreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 文件。');
+  }
+  const list = isRecord(parsed) && Array.isArray(parsed.presets) ? parsed.presets : isRecord(parsed) && 'style' in parsed ? [parsed] : null;
+  if (!list) throw new Error('文件中没有样式预设。');
+  if (isRecord(parsed) && typeof parsed.version === 'number' && parsed.version > PRESET_FILE_VERSION) {
+    throw new Error('预设文件来自更新版本的应用。');
+  }
+
+  return list.flatMap((raw, i) => {
+    if (!isRecord(raw) || !isRecord(raw.style)) {
+      issues.push(`presets[${i}] has no style`);
+      return [];
+    }
+    const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `导入的样式 ${i + 1}`;
+    return [{ id: generateId(), name, style: repairStyle(raw.style, issues) }];
+  });
+};
@@ -0,0 +1,98 @@
+import type { Font } from 'opentype.js';
+import { FONT_IMPORT_CSS, getEmbeddedFontCss, loadOutlineFont } from '../services/fontService';
+
+// Serialize the table SVG into a standalone file. Text either keeps a base64 subset of the
+// hand font ('embed') or is converted to paths ('outline'); glyphs the hand font lacks (CJK)
+// stay as text with the embedded font as fallback. When the font can't be fetched (offline)
+// we fall back to the remote @import, which is what the preview uses.
+
+export type FontEmbedMode = 'embed' | 'outline';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Synthetic bold / italic, matching what the browser does for the single-weight hand font
+export const BOLD_STROKE_RATIO = 0.03;
+export const ITALIC_SKEW_DEG = -12;
+
+export const canOutline = (font: Font, line: string) =>
+  Array.from(line).every(ch => /\s/.test(ch) || font.charToGlyph(ch).index !== 0);
+
+const outlineTextElement = (text: SVGTextElement, font: Font) => {
+  const fontSize = parseFloat(text.style.fontSize) || 16;
+  const fill = text.getAttribute('fill') ?? 'black';
+  const bold = text.style.fontWeight === 'bold' || parseInt(text.style.fontWeight) >= 600;
+  const italic = text.style.fontStyle === 'italic';
+  const anchor = text.getAttribute('text-anchor') ?? 'start';
+
+  const tspans = Array.from(text.querySelectorAll('tspan'));
+  const lines = tspans.length > 0 ? tspans : [text];
+  const group = document.createElementNS(SVG_NS, 'g');
+  group.setAttribute('fill', fill);
+  if (bold) {
+    group.setAttribute('stroke', fill);
+    group.setAttribute('stroke-width', String(fontSize * BOLD_STROKE_RATIO));
+    group.setAttribute('stroke-linejoin', 'round');
+  }
+
+  let y = parseFloat(text.getAttribute('y') ?? '0');
+  lines.forEach(line => {
+    y += parseFloat(line.getAttribute('dy') ?? '0');
+    const x = parseFloat(line.getAttribute('x') ?? text.getAttribute('x') ?? '0');
+    const content = line.textContent ?? '';
+
+    if (!content.trim() || !canOutline(font, content)) {
+      // Pin the baseline so the remaining text no longer depends on removed siblings
+      line.setAttribute('y', String(y));
+      line.removeAttribute('dy');
+      return;
+    }
+
+    const width = font.getAdvanceWidth(content, fontSize);
+    const startX = anchor === 'middle' ? x - width / 2 : anchor === 'end' ? x - width : x;
+    const path = document.createElementNS(SVG_NS, 'path');
+    path.setAttribute('d', font.getPath(content, startX, y, fontSize).toPathData(2));
+    if (italic) path.setAttribute('transform', `translate(${x} ${y}) skewX(${ITALIC_SKEW_DEG}) translate(${-x} ${-y})`);
+    group.appendChild(path);
+    if (line !== text) line.remove();
+    else text.textContent = '';
+  });
+
+  if (group.childNodes.length > 0) text.parentNode?.insertBefore(group, text);
+  if (!text.textContent?.trim()) text.remove();
+};
+
+const insertStyle = (svg: SVGSVGElement, css: string) => {
+  let defs = svg.querySelector('defs');
+  if (!defs) {
+    defs = document.createElementNS(SVG_NS, 'defs');
+    svg.insertBefore(defs, svg.firstChild);
+  }
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = css;
+  defs.insertBefore(style, defs.firstChild);
+};
+
+export const serializeSvg = async (svg: SVGSVGElement, fontMode: FontEmbedMode): Promise<string> => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  if (fontMode === 'outline') {
+    try {
+      const font = await loadOutlineFont();
+      Array.from(clone.querySelectorAll('text')).forEach(text => outlineTextElement(text, font));
+    } catch (error) {
+      console.warn("Could not load font outlines, embedding the font instead:", error);
+    }
+  }
+
+  const remainingText = Array.from(clone.querySelectorAll('text')).map(text => text.textContent ?? '').join('');
+  if (remainingText.trim()) {
+    try {
+      insertStyle(clone, await getEmbeddedFontCss(remainingText));
+    } catch (error) {
+      console.warn("Could not embed font, falling back to a remote import:", error);
+      insertStyle(clone, FONT_IMPORT_CSS);
+    }
+  }
+
+  return new XMLSerializer().serializeToString(clone);
+};
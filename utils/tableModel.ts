@@ -0,0 +1,338 @@
+import { CellRange, TableCell, TableConfig, TableData } from '../types';
+
+// Structural edits on the table grid. Merges are handled as a list of regions: an edit maps
+// each region to its new place and the hidden cells / owner pointers are rebuilt from that
+// list, so no edit can leave a half-updated merge behind. Column edits reuse the row edits on
+// the transposed table. All operations are pure: they return a new table.
+//
+// Invariants of a valid table: rows all have the same length, cell ids are unique, merge
+// regions stay inside the table and don't overlap, and exactly the non-owner cells of a region
+// are hidden, empty and point at its owner. repairMerges restores the merge invariants.
+
+export interface MergeRegion {
+  r: number;
+  c: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+// A run of rows (or columns) that no merge crosses, the unit rows are moved in
+export interface LineBlock {
+  start: number;
+  end: number; // Inclusive
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const createEmptyCell = (): TableCell => ({ id: generateId(), value: '', rowSpan: 1, colSpan: 1 });
+
+export const getMerges = (data: TableData): MergeRegion[] => {
+  const merges: MergeRegion[] = [];
+  data.forEach((row, r) => row.forEach((cell, c) => {
+    if (!cell.hidden && (cell.rowSpan > 1 || cell.colSpan > 1)) {
+      merges.push({ r, c, rowSpan: cell.rowSpan, colSpan: cell.colSpan });
+    }
+  }));
+  return merges;
+};
+
+// Rebuild spans, hidden flags and owner pointers from a merge list. Cells are copied, the
+// input table is not modified.
+export const applyMerges = (data: TableData, merges: MergeRegion[]): TableData => {
+  const newData = data.map(row => row.map(cell => {
+    const next = { ...cell, rowSpan: 1, colSpan: 1 };
+    delete next.hidden;
+    delete next.ownerRow;
+    delete next.ownerCol;
+    return next;
+  }));
+
+  merges.forEach(m => {
+    newData[m.r][m.c].rowSpan = m.rowSpan;
+    newData[m.r][m.c].colSpan = m.colSpan;
+    for (let r = m.r; r < m.r + m.rowSpan; r++) {
+      for (let c = m.c; c < m.c + m.colSpan; c++) {
+        if (r === m.r && c === m.c) continue;
+        const cell = newData[r][c];
+        cell.hidden = true;
+        cell.value = '';
+        cell.ownerRow = m.r;
+        cell.ownerCol = m.c;
+      }
+    }
+  });
+  return newData;
+};
+
+const rangeIntersects = (m: MergeRegion, range: CellRange) =>
+  m.r <= range.maxR && m.r + m.rowSpan - 1 >= range.minR && m.c <= range.maxC && m.c + m.colSpan - 1 >= range.minC;
+
+// Swap rows and columns, spans and owner pointers included
+export const transposeTable = (data: TableData): TableData => {
+  if (data.length === 0) return [];
+  return data[0].map((_, c) => data.map(row => {
+    const cell = row[c];
+    const next: TableCell = { ...cell, rowSpan: cell.colSpan, colSpan: cell.rowSpan };
+    if (cell.hidden) {
+      next.ownerRow = cell.ownerCol;
+      next.ownerCol = cell.ownerRow;
+    }
+    return next;
+  }));
+};
+
+// Insert an empty row before `index` (data.length appends). Merges the new row cuts through
+// grow by one row instead of being split.
+export const insertRow = (data: TableData, index: number): TableData => {
+  const colCount = data[0]?.length ?? 0;
+  if (colCount === 0) return data;
+  const at = Math.max(0, Math.min(index, data.length));
+
+  const rows = [...data];
+  rows.splice(at, 0, Array.from({ length: colCount }).map(createEmptyCell));
+  const merges = getMerges(data).map(m => {
+    if (m.r >= at) return { ...m, r: m.r + 1 };
+    if (m.r + m.rowSpan > at) return { ...m, rowSpan: m.rowSpan + 1 };
+    return m;
+  });
+  return applyMerges(rows, merges);
+};
+
+export const insertColumn = (data: TableData, index: number): TableData =>
+  transposeTable(insertRow(transposeTable(data), index));
+
+// Delete a row. Merges through it lose one row; when the deleted row holds a merge's owner,
+// the content moves down to the row that takes its place.
+export const deleteRow = (data: TableData, index: number): TableData => {
+  if (index < 0 || index >= data.length) return data;
+  const merges = getMerges(data);
+  const rows = data.map(row => [...row]);
+
+  merges.forEach(m => {
+    if (m.r !== index || m.rowSpan === 1) return;
+    const owner = rows[m.r][m.c];
+    rows[m.r + 1][m.c] = { ...rows[m.r + 1][m.c], value: owner.value, style: owner.style };
+    if (!owner.style) delete rows[m.r + 1][m.c].style;
+  });
+  rows.splice(index, 1);
+
+  const remaining = merges.flatMap(m => {
+    if (m.r > index) return [{ ...m, r: m.r - 1 }];
+    if (m.r + m.rowSpan <= index) return [m];
+    const shrunk = { ...m, rowSpan: m.rowSpan - 1 };
+    if (shrunk.rowSpan === 0) return []; // The whole region was in the deleted row
+    return shrunk.rowSpan > 1 || shrunk.colSpan > 1 ? [shrunk] : [];
+  });
+  return applyMerges(rows, remaining);
+};
+
+export const deleteColumn = (data: TableData, index: number): TableData =>
+  transposeTable(deleteRow(transposeTable(data), index));
+
+// Grow a range until every merge it touches lies completely inside it
+export const expandRange = (data: TableData, range: CellRange): CellRange => {
+  const merges = getMerges(data);
+  const result = { ...range };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    merges.forEach(m => {
+      if (!rangeIntersects(m, result)) return;
+      const maxR = m.r + m.rowSpan - 1;
+      const maxC = m.c + m.colSpan - 1;
+      if (m.r < result.minR) { result.minR = m.r; changed = true; }
+      if (m.c < result.minC) { result.minC = m.c; changed = true; }
+      if (maxR > result.maxR) { result.maxR = maxR; changed = true; }
+      if (maxC > result.maxC) { result.maxC = maxC; changed = true; }
+    });
+  }
+  return result;
+};
+
+// Merge a range into its top-left cell, joining the values line by line. A range that partly
+// overlaps existing merges is widened to contain them (see expandRange).
+export const mergeRange = (data: TableData, range: CellRange): { data: TableData; range: CellRange } => {
+  const target = expandRange(data, range);
+  const { minR, maxR, minC, maxC } = target;
+  if (minR === maxR && minC === maxC) return { data, range: target };
+
+  const values: string[] = [];
+  for (let r = minR; r <= maxR; r++) {
+    for (let c = minC; c <= maxC; c++) {
+      const cell = data[r][c];
+      if (!cell.hidden && cell.value) values.push(cell.value);
+    }
+  }
+
+  const rows = data.map(row => [...row]);
+  rows[minR][minC] = { ...rows[minR][minC], value: values.join('\n') };
+  const merges = getMerges(data).filter(m => !rangeIntersects(m, target));
+  merges.push({ r: minR, c: minC, rowSpan: maxR - minR + 1, colSpan: maxC - minC + 1 });
+  return { data: applyMerges(rows, merges), range: target };
+};
+
+// Split every merge that touches the range; the value stays in the former owner
+export const unmergeRange = (data: TableData, range: CellRange): TableData => {
+  const merges = getMerges(data);
+  const remaining = merges.filter(m => !rangeIntersects(m, range));
+  if (remaining.length === merges.length) return data;
+  return applyMerges(data, remaining);
+};
+
+export const hasMergeInRange = (data: TableData, range: CellRange): boolean =>
+  getMerges(data).some(m => rangeIntersects(m, range));
+
+// Widen a row block until no merge crosses its edges
+export const getRowBlock = (data: TableData, index: number): LineBlock => {
+  const merges = getMerges(data).filter(m => m.rowSpan > 1);
+  const block = { start: index, end: index };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    merges.forEach(m => {
+      const mEnd = m.r + m.rowSpan - 1;
+      if (m.r > block.end || mEnd < block.start) return;
+      if (m.r < block.start) { block.start = m.r; changed = true; }
+      if (mEnd > block.end) { block.end = mEnd; changed = true; }
+    });
+  }
+  return block;
+};
+
+export const getColumnBlock = (data: TableData, index: number): LineBlock =>
+  getRowBlock(transposeTable(data), index);
+
+// Whether rows can be dropped at the gap before `before` without cutting a merge
+export const isRowBoundary = (data: TableData, before: number): boolean =>
+  getMerges(data).every(m => !(m.r < before && before < m.r + m.rowSpan));
+
+export const isColumnBoundary = (data: TableData, before: number): boolean =>
+  isRowBoundary(transposeTable(data), before);
+
+// New index of every row when `block` is moved to the gap before `before`
+export const getMoveOrder = (count: number, block: LineBlock, before: number): number[] => {
+  const indices = Array.from({ length: count }).map((_, i) => i);
+  const moved = indices.slice(block.start, block.end + 1);
+  const rest = indices.filter(i => i < block.start || i > block.end);
+  const at = rest.filter(i => i < before).length;
+  const order = [...rest.slice(0, at), ...moved, ...rest.slice(at)];
+
+  const newIndex: number[] = [];
+  order.forEach((oldIndex, i) => { newIndex[oldIndex] = i; });
+  return newIndex;
+};
+
+// Move a block of rows to the gap before `before`. Returns null when the move is a no-op or
+// the target gap lies inside a merge.
+export const moveRows = (data: TableData, block: LineBlock, before: number): { data: TableData; newIndex: number[] } | null => {
+  if (before >= block.start && before <= block.end + 1) return null;
+  if (!isRowBoundary(data, before)) return null;
+
+  const newIndex = getMoveOrder(data.length, block, before);
+  const rows: TableData = [];
+  data.forEach((row, r) => { rows[newIndex[r]] = row; });
+  const merges = getMerges(data).map(m => ({ ...m, r: newIndex[m.r] }));
+  return { data: applyMerges(rows, merges), newIndex };
+};
+
+export const moveColumns = (data: TableData, block: LineBlock, before: number): { data: TableData; newIndex: number[] } | null => {
+  const result = moveRows(transposeTable(data), block, before);
+  return result && { data: transposeTable(result.data), newIndex: result.newIndex };
+};
+
+// Headers are the first headerRows rows and the first headerColumns columns; a merged cell
+// counts as a header when its owner does
+export const isHeaderCell = (config: Pick<TableConfig, 'headerRows' | 'headerColumns'>, r: number, c: number): boolean =>
+  r < config.headerRows || c < config.headerColumns;
+
+// Build a table from a list of old row indices (a reordering or a subset). The caller keeps
+// every vertical merge whole: all of its rows are taken, consecutively and in order.
+export const selectRows = (data: TableData, rows: number[]): TableData => {
+  const newIndex = new Map(rows.map((oldIndex, i) => [oldIndex, i]));
+  const merges = getMerges(data).flatMap(m => {
+    const r = newIndex.get(m.r);
+    return r === undefined ? [] : [{ ...m, r }];
+  });
+  return applyMerges(rows.map(r => data[r]), merges);
+};
+
+// Custom row heights / column widths (and other per-line settings) follow their lines through
+// inserts, deletes and moves
+export const shiftSizes = <T>(sizes: Record<number, T>, index: number): Record<number, T> => {
+  const result: Record<number, T> = {};
+  Object.entries(sizes).forEach(([key, size]) => {
+    const k = parseInt(key);
+    result[k >= index ? k + 1 : k] = size;
+  });
+  return result;
+};
+
+export const reorderSizes = <T>(sizes: Record<number, T>, newIndex: number[]): Record<number, T> => {
+  const result: Record<number, T> = {};
+  Object.entries(sizes).forEach(([key, size]) => {
+    const k = parseInt(key);
+    result[newIndex[k] ?? k] = size;
+  });
+  return result;
+};
+
+export const removeSize = <T>(sizes: Record<number, T>, index: number): Record<number, T> => {
+  const result: Record<number, T> = {};
+  Object.entries(sizes).forEach(([key, size]) => {
+    const k = parseInt(key);
+    if (k !== index) result[k > index ? k - 1 : k] = size;
+  });
+  return result;
+};
+
+// Rebuild hidden flags and owner pointers from the owners' spans. Spans running past the table
+// are clipped, and a merge that would overlap an earlier one is dissolved. Mutates the table;
+// each fix-up is reported to issues.
+export const repairMerges = (data: TableData, issues: string[]): TableData => {
+  const covered = data.map(row => row.map(() => false));
+  const owners = data.map(row => row.map(cell => (cell.hidden ? `${cell.ownerRow}:${cell.ownerCol}` : null)));
+  data.forEach(row => row.forEach(cell => {
+    delete cell.hidden;
+    delete cell.ownerRow;
+    delete cell.ownerCol;
+  }));
+
+  data.forEach((row, r) => row.forEach((cell, c) => {
+    if (covered[r][c]) return;
+    let rowSpan = Math.min(cell.rowSpan, data.length - r);
+    let colSpan = Math.min(cell.colSpan, row.length - c);
+
+    if (rowSpan !== cell.rowSpan || colSpan !== cell.colSpan) issues.push(`merge at ${r}:${c} runs past the table`);
+    for (let rr = r; rr < r + rowSpan; rr++) {
+      for (let cc = c; cc < c + colSpan; cc++) {
+        if (covered[rr][cc] && (rowSpan > 1 || colSpan > 1)) {
+          issues.push(`merge at ${r}:${c} overlaps another merge`);
+          rowSpan = 1;
+          colSpan = 1;
+        }
+      }
+    }
+
+    cell.rowSpan = rowSpan;
+    cell.colSpan = colSpan;
+    for (let rr = r; rr < r + rowSpan; rr++) {
+      for (let cc = c; cc < c + colSpan; cc++) {
+        covered[rr][cc] = true;
+        if (rr === r && cc === c) continue;
+        if (owners[rr][cc] !== `${r}:${c}`) issues.push(`cell ${rr}:${cc} has a wrong merge owner`);
+        const hidden = data[rr][cc];
+        hidden.hidden = true;
+        hidden.value = '';
+        hidden.rowSpan = 1;
+        hidden.colSpan = 1;
+        hidden.ownerRow = r;
+        hidden.ownerCol = c;
+      }
+    }
+  }));
+
+  owners.forEach((row, r) => row.forEach((owner, c) => {
+    if (owner !== null && !data[r][c].hidden) issues.push(`cell ${r}:${c} is hidden outside any merge`);
+  }));
+  return data;
+};
@@ -0,0 +1,177 @@
+// Text measurement and line breaking shared by column sizing, row heights and rendering.
+// Widths come from canvas measureText once the hand font has loaded; before that (or
+// headless, without a canvas) a per-character width table approximates Patrick Hand.
+
+export interface FontSpec {
+  fontSize: number;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export const FONT_FAMILY = '"Patrick Hand", cursive';
+
+export const toCssFont = (font: FontSpec): string =>
+  `${font.italic ? 'italic ' : ''}${font.bold ? 'bold ' : ''}${font.fontSize}px ${FONT_FAMILY}`;
+
+// Ideographs, kana, hangul and fullwidth forms: wide glyphs that may break between any two characters
+const WIDE_CHAR = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF01-\uFF60\uFFE0-\uFFE6\u{20000}-\u{3FFFD}]/u;
+
+// Characters that must not start a line (closing brackets, CJK and Latin trailing punctuation)
+const NO_BREAK_BEFORE = new Set(Array.from(')]}>.,!?;:%\'"»’”、。，．：；！？）］｝〉》」』】〕〗〙〛ー々〻ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ…‥・'));
+
+// Characters that must not end a line (opening brackets)
+const NO_BREAK_AFTER = new Set(Array.from('([{<«‘“（［｛〈《「『【〔〖〘〚'));
+
+const BREAK_AFTER = new Set(['-', '\u2010', '\u2013', '\u2014', '/', '\u200B']);
+
+const isSpace = (ch: string) => /\s/.test(ch);
+
+export const isWideChar = (ch: string) => WIDE_CHAR.test(ch);
+
+// Approximate advance width in em units, used when no canvas/font metrics are available
+const fallbackCharWidth = (ch: string): number => {
+  if (isWideChar(ch)) return 1;
+  if (ch === ' ') return 0.28;
+  if (/[iljI.,:;'!|`]/.test(ch)) return 0.25;
+  if (/[mwMW@]/.test(ch)) return 0.75;
+  if (/[A-Z]/.test(ch)) return 0.58;
+  if (/[0-9]/.test(ch)) return 0.5;
+  if (/[a-z]/.test(ch)) return 0.47;
+  return 0.55;
+};
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+const widthCache = new Map<string, number>();
+
+const getMeasureContext = (): CanvasRenderingContext2D | null => {
+  if (measureContext !== undefined) return measureContext;
+  if (typeof document === 'undefined') {
+    measureContext = null;
+    return null;
+  }
+  try {
+    measureContext = document.createElement('canvas').getContext('2d');
+  } catch {
+    measureContext = null;
+  }
+  return measureContext;
+};
+
+// Only trust canvas metrics once the hand font is actually available, otherwise we'd
+// measure whatever cursive fallback the browser picked.
+const isFontLoaded = (cssFont: string): boolean => {
+  if (typeof document === 'undefined' || !document.fonts) return false;
+  try {
+    return document.fonts.check(cssFont);
+  } catch {
+    return false;
+  }
+};
+
+export const measureText = (text: string, font: FontSpec): number => {
+  if (!text) return 0;
+  const cssFont = toCssFont(font);
+  const key = `${cssFont}|${text}`;
+  const cached = widthCache.get(key);
+  if (cached !== undefined) return cached;
+
+  let width: number;
+  const ctx = isFontLoaded(cssFont) ? getMeasureContext() : null;
+  if (ctx) {
+    ctx.font = cssFont;
+    width = ctx.measureText(text).width;
+  } else {
+    const ems = Array.from(text).reduce((sum, ch) => sum + fallbackCharWidth(ch), 0);
+    width = ems * font.fontSize * (font.bold ? 1.06 : 1);
+  }
+
+  widthCache.set(key, width);
+  return width;
+};
+
+// Drop cached widths, e.g. after web fonts finish loading
+export const clearMeasureCache = () => {
+  widthCache.clear();
+};
+
+// Split a paragraph into unbreakable segments; a line may break after any segment.
+// Trailing spaces stay attached to the segment before them.
+export const getBreakSegments = (paragraph: string): string[] => {
+  const chars = Array.from(paragraph);
+  const segments: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const next = chars[i + 1];
+    current += ch;
+    if (next === undefined) break;
+
+    let canBreak = false;
+    if (isSpace(next) || NO_BREAK_BEFORE.has(next) || NO_BREAK_AFTER.has(ch)) {
+      canBreak = false;
+    } else if (isSpace(ch) || BREAK_AFTER.has(ch)) {
+      canBreak = true;
+    } else if (isWideChar(ch) || isWideChar(next)) {
+      canBreak = true;
+    }
+
+    if (canBreak) {
+      segments.push(current);
+      current = '';
+    }
+  }
+  if (current) segments.push(current);
+  return segments;
+};
+
+export const wrapText = (text: string, maxWidth: number, font: FontSpec): string[] => {
+  if (!text) return [];
+
+  // Split by explicit newlines first to respect user formatting
+  const paragraphs = text.split('\n');
+  const finalLines: string[] = [];
+  const widthOf = (s: string) => measureText(s.trimEnd(), font);
+
+  paragraphs.forEach(paragraph => {
+    // If paragraph is empty (double newline), add a spacer line
+    if (!paragraph) {
+      finalLines.push(' ');
+      return;
+    }
+
+    let currentLine = '';
+
+    const pushSegment = (segment: string) => {
+      if (!currentLine) {
+        if (widthOf(segment) <= maxWidth) {
+          currentLine = segment;
+          return;
+        }
+        // A single segment wider than the cell: fall back to breaking between characters
+        Array.from(segment).forEach(ch => {
+          if (currentLine && widthOf(currentLine + ch) > maxWidth) {
+            finalLines.push(currentLine.trimEnd());
+            currentLine = isSpace(ch) ? '' : ch;
+          } else {
+            currentLine += ch;
+          }
+        });
+        return;
+      }
+
+      if (widthOf(currentLine + segment) <= maxWidth) {
+        currentLine += segment;
+      } else {
+        finalLines.push(currentLine.trimEnd());
+        currentLine = '';
+        pushSegment(segment.trimStart());
+      }
+    };
+
+    getBreakSegments(paragraph).forEach(pushSegment);
+    finalLines.push(currentLine.trimEnd() || ' ');
+  });
+
+  return finalLines;
+};
@@ -0,0 +1,171 @@
+import { ColumnFormat, ColumnType, TableData, TextAlign } from '../types';
+import { stripMarkup } from './richText';
+import { parseNumber } from './sortFilter';
+
+// Display formatting of typed columns. Values that don't parse as the column's type are drawn
+// as typed, so a stray note in a number column is never lost.
+
+export const COLUMN_TYPES: ColumnType[] = ['text', 'number', 'currency', 'percent', 'date', 'boolean'];
+
+export const createColumnFormat = (type: ColumnType): ColumnFormat => ({
+  type,
+  decimals: type === 'number' ? 0 : type === 'percent' ? 1 : 2,
+  thousands: true,
+  currencySymbol: '¥',
+  datePattern: 'YYYY-MM-DD',
+  locale: '',
+  booleanStyle: 'marks'
+});
+
+// Numbers, dates and money read right-aligned like in a spreadsheet; marks sit in the middle
+export const getDefaultAlign = (format?: ColumnFormat): TextAlign => {
+  if (!format) return 'center';
+  switch (format.type) {
+    case 'number':
+    case 'currency':
+    case 'percent':
+    case 'date':
+      return 'right';
+    default:
+      return 'center';
+  }
+};
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on', '✓', '✔', '☑', '是', '对', '有'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off', '✗', '✘', '×', '☐', '否', '错', '无'];
+
+export const parseBoolean = (value: string): boolean | null => {
+  const text = value.trim().toLowerCase();
+  if (TRUE_WORDS.includes(text)) return true;
+  if (FALSE_WORDS.includes(text)) return false;
+  return null;
+};
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// A real calendar day, so 2024-02-30 isn't rolled over into March
+const toDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// English month name or an abbreviation of at least three letters ("Mar", "Sept."), 1-based
+const parseMonthName = (name: string): number | null => {
+  const lower = name.toLowerCase();
+  const index = lower.length < 3 ? -1 : MONTH_NAMES.findIndex(month => month.startsWith(lower));
+  return index === -1 ? null : index + 1;
+};
+
+// Accepts 2024-03-05, 2024/3/5, 2024.3.5, 2024年3月5日, ISO date-times, "Mar 5, 2024" and
+// "5 March 2024". Nothing else is guessed at, so notes like "Phase 2" stay text.
+export const parseDate = (value: string): Date | null => {
+  const text = value.trim();
+  if (!text) return null;
+  const ymd = text.match(/^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?$/);
+  if (ymd) return toDate(parseInt(ymd[1]), parseInt(ymd[2]), parseInt(ymd[3]));
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(text)) {
+    const time = Date.parse(text);
+    return Number.isNaN(time) ? null : new Date(time);
+  }
+  const mdy = text.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i);
+  const dmy = text.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/i);
+  const [name, day, year] = mdy ? [mdy[1], mdy[2], mdy[3]] : dmy ? [dmy[2], dmy[1], dmy[3]] : [];
+  const month = name ? parseMonthName(name) : null;
+  return month ? toDate(parseInt(year!), month, parseInt(day!)) : null;
+};
+
+// An unknown locale tag falls back to the browser's instead of throwing
+const resolveLocale = (locale: string): string | undefined => {
+  if (!locale.trim()) return undefined;
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale.trim()).length > 0 ? locale.trim() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const formatDate = (date: Date, pattern: string, locale = ''): string => {
+  const resolved = resolveLocale(locale);
+  const month = (style: 'long' | 'short') => new Intl.DateTimeFormat(resolved, { month: style }).format(date);
+  return pattern.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D/g, token => {
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return pad(date.getFullYear() % 100);
+      case 'MMMM': return month('long');
+      case 'MMM': return month('short');
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      default: return String(date.getDate());
+    }
+  });
+};
+
+const formatNumber = (value: number, format: ColumnFormat): string => {
+  const decimals = Math.min(10, Math.max(0, Math.round(format.decimals)));
+  return new Intl.NumberFormat(resolveLocale(format.locale), {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: format.thousands
+  }).format(value);
+};
+
+// Put the formatted text where the plain text was, so "**20**" stays bold once formatted
+const replacePlain = (value: string, plain: string, formatted: string): string => {
+  const at = value.indexOf(plain);
+  return at === -1 ? formatted : value.slice(0, at) + formatted + value.slice(at + plain.length);
+};
+
+// The text drawn for a body cell. Booleans in 'marks' style keep their text here, the table
+// draws the mark itself. Inline markup is looked through when parsing.
+export const formatValue = (value: string, format?: ColumnFormat): string => {
+  if (!format || !value.trim()) return value;
+  const plain = stripMarkup(value).trim();
+  switch (format.type) {
+    case 'number': {
+      const n = parseNumber(plain);
+      return n === null ? value : replacePlain(value, plain, formatNumber(n, format));
+    }
+    case 'currency': {
+      const n = parseNumber(plain);
+      if (n === null) return value;
+      return replacePlain(value, plain, `${n < 0 ? '-' : ''}${format.currencySymbol}${formatNumber(Math.abs(n), format)}`);
+    }
+    case 'percent': {
+      // "12%" is already in percent, a bare 0.12 is a fraction like in a spreadsheet
+      const n = parseNumber(plain);
+      if (n === null) return value;
+      return replacePlain(value, plain, `${formatNumber(plain.endsWith('%') ? n : n * 100, format)}%`);
+    }
+    case 'date': {
+      const date = parseDate(plain);
+      return date ? replacePlain(value, plain, formatDate(date, format.datePattern || 'YYYY-MM-DD', format.locale)) : value;
+    }
+    default:
+      return value;
+  }
+};
+
+// Check mark or cross for a boolean cell, null when the cell is drawn as text
+export const getBooleanMark = (value: string, format?: ColumnFormat): boolean | null => {
+  if (format?.type !== 'boolean' || format.booleanStyle !== 'marks') return null;
+  return parseBoolean(stripMarkup(value));
+};
+
+// Format the body cells of every typed column; header rows and columns are left alone
+export const formatTable = (
+  data: TableData,
+  formats: Record<number, ColumnFormat>,
+  headerRows = 1,
+  headerColumns = 0
+): TableData => {
+  if (Object.keys(formats).length === 0) return data;
+  return data.map((row, r) => (r < headerRows ? row : row.map((cell, c) => {
+    const format = formats[c];
+    if (cell.hidden || !format || c < headerColumns) return cell;
+    const value = formatValue(cell.value, format);
+    return value === cell.value ? cell : { ...cell, value };
+  })));
+};